@@ -11,6 +11,7 @@ import {
   saveTokensToCache,
   extractCsrfFromHtml,
   extractSessionIdFromHtml,
+  extractBackendLabelFromHtml,
   type AuthTokens,
   REQUIRED_COOKIES,
 } from "./tokens";
@@ -187,11 +188,11 @@ export async function extractCookiesViaCDP(
 }
 
 /**
- * Extract CSRF token and Session ID by navigating to NotebookLM page
+ * Extract CSRF token, Session ID and backend label by navigating to NotebookLM page
  */
 export async function extractTokensViaCDP(
   config: CDPConfig = {}
-): Promise<{ csrfToken: string; sessionId: string } | null> {
+): Promise<{ csrfToken: string; sessionId: string; backendLabel?: string | undefined } | null> {
   const port = config.port ?? DEFAULT_CDP_PORT;
   const host = config.host ?? "localhost";
 
@@ -218,6 +219,7 @@ export async function extractTokensViaCDP(
     const html = result.value as string;
     const csrfToken = extractCsrfFromHtml(html);
     const sessionId = extractSessionIdFromHtml(html);
+    const backendLabel = extractBackendLabelFromHtml(html);
 
     if (!csrfToken) {
       console.warn("CDP: Could not extract CSRF token");
@@ -227,6 +229,7 @@ export async function extractTokensViaCDP(
     return {
       csrfToken,
       sessionId: sessionId || "",
+      backendLabel: backendLabel ?? undefined,
     };
   } catch (error) {
     console.error("CDP token extraction failed:", error);
@@ -290,6 +293,7 @@ export async function refreshAuthViaCDP(
     csrfToken: tokens.csrfToken,
     sessionId: tokens.sessionId,
     extractedAt: Date.now() / 1000,
+    backendLabel: tokens.backendLabel,
   };
 
   // Save to cache
@@ -17,6 +17,7 @@ import {
   isTokenExpired,
   extractCsrfFromHtml,
   extractSessionIdFromHtml,
+  extractBackendLabelFromHtml,
   cookiesToHeader,
   getCachePath,
   type AuthTokens,
@@ -249,7 +250,7 @@ class AuthManager {
     if (!tokens) return false;
 
     try {
-      const response = await fetch('https://notebooklm.google.com/', {
+      const response = await fetch(`${Config.BASE_URL}/`, {
         headers: {
           'Cookie': cookiesToHeader(tokens.cookies),
         },
@@ -260,6 +261,7 @@ class AuthManager {
       const html = await response.text();
       const csrfToken = extractCsrfFromHtml(html);
       const sessionId = extractSessionIdFromHtml(html);
+      const backendLabel = extractBackendLabelFromHtml(html);
 
       if (!csrfToken) return false;
 
@@ -267,6 +269,7 @@ class AuthManager {
         ...tokens,
         csrfToken,
         sessionId: sessionId ?? tokens.sessionId,
+        backendLabel: backendLabel ?? tokens.backendLabel,
       };
 
       // Update in-memory state
@@ -3,7 +3,7 @@
  */
 
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
 import type { AuthTokens } from "../types";
 import { REQUIRED_COOKIES } from "../types";
@@ -12,24 +12,31 @@ import { REQUIRED_COOKIES } from "../types";
 export type { AuthTokens } from "../types";
 export { REQUIRED_COOKIES } from "../types";
 
-const CACHE_DIR = join(homedir(), ".notebooklm-mcp");
-const CACHE_PATH = join(CACHE_DIR, "auth.json");
+let cachePath = join(homedir(), ".notebooklm-mcp", "auth.json");
+
+/**
+ * Override the token cache file (for testing)
+ */
+export function setTokensPath(path: string): void {
+  cachePath = path;
+}
 
 /**
  * Load cached auth tokens from disk
  */
 export function loadCachedTokens(): AuthTokens | null {
-  if (!existsSync(CACHE_PATH)) {
+  if (!existsSync(cachePath)) {
     return null;
   }
 
   try {
-    const data = JSON.parse(readFileSync(CACHE_PATH, "utf-8"));
+    const data = JSON.parse(readFileSync(cachePath, "utf-8"));
     return {
       cookies: data.cookies || {},
       csrfToken: data.csrf_token || "",
       sessionId: data.session_id || "",
       extractedAt: data.extracted_at || 0,
+      backendLabel: data.backend_label || undefined,
     };
   } catch (e) {
     console.error("Failed to load cached tokens:", e);
@@ -41,8 +48,9 @@ export function loadCachedTokens(): AuthTokens | null {
  * Save auth tokens to disk cache
  */
 export function saveTokensToCache(tokens: AuthTokens, silent = false): void {
-  if (!existsSync(CACHE_DIR)) {
-    mkdirSync(CACHE_DIR, { recursive: true });
+  const dir = dirname(cachePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
   }
 
   const data = {
@@ -50,12 +58,13 @@ export function saveTokensToCache(tokens: AuthTokens, silent = false): void {
     csrf_token: tokens.csrfToken,
     session_id: tokens.sessionId,
     extracted_at: tokens.extractedAt,
+    backend_label: tokens.backendLabel,
   };
 
-  writeFileSync(CACHE_PATH, JSON.stringify(data, null, 2));
+  writeFileSync(cachePath, JSON.stringify(data, null, 2));
   
   if (!silent) {
-    console.log(`Auth tokens cached to ${CACHE_PATH}`);
+    console.log(`Auth tokens cached to ${cachePath}`);
   }
 }
 
@@ -141,9 +150,29 @@ export function extractSessionIdFromHtml(html: string): string | null {
   return null;
 }
 
+/**
+ * Extract the backend label (frontend build, e.g. boq_labs-tailwind-frontend_20260120.08_p0)
+ * from NotebookLM page HTML
+ */
+export function extractBackendLabelFromHtml(html: string): string | null {
+  const patterns = [
+    /"cfb2h":"([^"]+)"/,
+    /"(boq_labs-tailwind-frontend_[^"]+)"/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match) {
+      return match[1] ?? null;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get cache file path
  */
 export function getCachePath(): string {
-  return CACHE_PATH;
+  return cachePath;
 }
@@ -10,10 +10,14 @@ import type {
   SourceContent,
   ResearchTask,
   StudioArtifact,
+  MindMap,
+  MindMapNode,
   ConversationTurn,
+  Citation,
 } from "../types";
 import { CONSTANTS } from "../types";
 import { stripXssiPrefix } from "./encoding";
+import { AppError } from "../errors";
 
 // ============================================================================
 // Helper Functions
@@ -65,13 +69,13 @@ function getResearchResultType(code: number): string {
 
 function getStudioTypeName(code: number): StudioArtifact["type"] {
   const types: Record<number, StudioArtifact["type"]> = {
-    1: "audio",
-    2: "video",
-    3: "report",
-    4: "flashcards",
-    5: "infographic",
-    6: "slide_deck",
-    8: "data_table",
+    [CONSTANTS.STUDIO_TYPE_AUDIO]: "audio",
+    [CONSTANTS.STUDIO_TYPE_REPORT]: "report",
+    [CONSTANTS.STUDIO_TYPE_VIDEO]: "video",
+    [CONSTANTS.STUDIO_TYPE_FLASHCARDS]: "flashcards",
+    [CONSTANTS.STUDIO_TYPE_INFOGRAPHIC]: "infographic",
+    [CONSTANTS.STUDIO_TYPE_SLIDE_DECK]: "slide_deck",
+    [CONSTANTS.STUDIO_TYPE_DATA_TABLE]: "data_table",
   };
   return types[code] || "audio";
 }
@@ -80,12 +84,61 @@ function getStudioStatus(code: number): StudioArtifact["status"] {
   const statuses: Record<number, StudioArtifact["status"]> = {
     0: "pending",
     1: "generating",
-    2: "ready",
-    3: "failed",
+    2: "pending",
+    3: "ready",
+    4: "failed",
   };
   return statuses[code] || "pending";
 }
 
+// Content slot holding each artifact type's options/output (same as CREATE_STUDIO)
+const STUDIO_CONTENT_SLOTS: Record<string, number> = {
+  audio: 6,
+  report: 7,
+  video: 8,
+  flashcards: 9,
+  infographic: 14,
+  slide_deck: 16,
+  data_table: 18,
+};
+
+function findUrls(data: unknown, urls: string[] = []): string[] {
+  if (typeof data === "string" && /^https?:\/\//.test(data)) urls.push(data);
+  if (Array.isArray(data)) {
+    for (const item of data) findUrls(item, urls);
+  }
+  return urls;
+}
+
+function pickUrl(type: StudioArtifact["type"], data: unknown): string | undefined {
+  const urls = findUrls(data);
+  // Slide decks carry page images and, once rendered, a PDF
+  if (type === "slide_deck") return urls.find((u) => /pdf/i.test(u)) ?? urls[0];
+  return urls[0];
+}
+
+function longestString(data: unknown): string {
+  return extractAllText(Array.isArray(data) ? data : [data])
+    .reduce((longest, text) => (text.length > longest.length ? text : longest), "");
+}
+
+/**
+ * Find the first array of rows (arrays of scalar cells) in a data table payload
+ */
+function findTableRows(data: unknown): string[][] | undefined {
+  if (!Array.isArray(data)) return undefined;
+  const isRow = (row: unknown) =>
+    Array.isArray(row) && row.length > 0 && row.every((cell) => cell === null || typeof cell !== "object");
+  if (data.length > 1 && data.every(isRow)) {
+    return data.map((row: unknown[]) => row.map((cell) => (cell === null ? "" : String(cell))));
+  }
+  for (const item of data) {
+    const rows = findTableRows(item);
+    if (rows) return rows;
+  }
+  return undefined;
+}
+
 // ============================================================================
 // Decoders
 // ============================================================================
@@ -154,13 +207,23 @@ export function decodeNotebooks(result: unknown): Notebook[] {
 export function decodeNotebook(result: unknown): { title: string; sources: Source[] } | null {
   if (!result || !Array.isArray(result)) return null;
 
-  const title = result[0] || "Untitled";
-  const sourcesData = Array.isArray(result[1]) ? result[1] : [];
+  // GET_NOTEBOOK wraps the notebook in an outer array
+  const data = Array.isArray(result[0]) ? result[0] : result;
+
+  const title = (typeof data[0] === "string" ? data[0] : null) || "Untitled";
+  const sourcesData = Array.isArray(data[1]) ? data[1] : [];
   
-  const sources: Source[] = sourcesData.map((src: unknown[]) => ({
-    id: Array.isArray(src[0]) ? src[0][0] : src[0],
-    title: (typeof src[1] === "string" ? src[1] : null) || "Untitled",
-  }));
+  const sources: Source[] = sourcesData
+    .filter((src: unknown): src is unknown[] => Array.isArray(src))
+    .map((src: unknown[]) => {
+      const metadata = Array.isArray(src[2]) ? src[2] : [];
+      return {
+        id: Array.isArray(src[0]) ? src[0][0] : src[0],
+        title: (typeof src[1] === "string" ? src[1] : null) || "Untitled",
+        type: typeof metadata[4] === "number" ? getSourceTypeName(metadata[4]) : undefined,
+        url: Array.isArray(metadata[7]) && typeof metadata[7][0] === "string" ? metadata[7][0] : undefined,
+      };
+    });
 
   return { title, sources };
 }
@@ -328,89 +391,298 @@ export function decodeResearchTask(result: unknown, taskId: string, notebookId:
 
 /**
  * Decode studio artifacts response
+ * Each artifact: [id, title, typeCode, sources, statusCode, ..., createdAt at 15]
+ * with type-specific output (including media URLs) in the CREATE_STUDIO slot
  */
 export function decodeStudioArtifacts(result: unknown): StudioArtifact[] {
   const artifacts: StudioArtifact[] = [];
-
-  if (result && Array.isArray(result)) {
-    for (const item of result) {
-      if (Array.isArray(item)) {
-        artifacts.push({
-          id: item[0] || "",
-          type: getStudioTypeName(item[1]),
-          status: getStudioStatus(item[2]),
-          url: item[3] || undefined,
-          createdAt: parseTimestamp(item[4]) || "",
-        });
-      }
+  if (!result || !Array.isArray(result)) return artifacts;
+
+  const list = Array.isArray(result[0]) && Array.isArray(result[0][0]) ? result[0] : result;
+  for (const item of list) {
+    if (!Array.isArray(item) || typeof item[0] !== "string") continue;
+
+    const type = getStudioTypeName(item[2]);
+    const slot = STUDIO_CONTENT_SLOTS[type];
+    const output = slot !== undefined ? item[slot] : undefined;
+    const artifact: StudioArtifact = {
+      id: item[0],
+      title: typeof item[1] === "string" ? item[1] : undefined,
+      type,
+      status: getStudioStatus(item[4]),
+      url: pickUrl(type, output),
+      createdAt: parseTimestamp(item[15]) || "",
+    };
+
+    // Text artifacts carry their content inline (next to the echoed
+    // generation options) instead of a media URL
+    const ready = artifact.status === "ready";
+    if (ready && type === "report") {
+      artifact.content = longestString(output) || undefined;
+    } else if (ready && type === "data_table") {
+      artifact.rows = findTableRows(output);
     }
+    artifacts.push(artifact);
   }
 
   return artifacts;
 }
 
 /**
- * Decode streaming query response
+ * Decode a mind map tree: JSON (string or parsed) of nested {name, children}
  */
-export function decodeQueryResponse(text: string): { answer: string; conversationId: string | null } {
-  const responseText = stripXssiPrefix(text);
-  const lines = responseText.trim().split("\n");
-
-  let longestAnswer = "";
-  let longestThinking = "";
-  let conversationId: string | null = null;
-
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i]?.trim() ?? '';
-    if (!line) {
-      i++;
-      continue;
+export function decodeMindMapTree(data: unknown): MindMapNode | null {
+  let value = data;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
     }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
 
-    const byteCount = parseInt(line, 10);
-    if (!isNaN(byteCount) && byteCount > 0) {
-      i++;
-      if (i < lines.length) {
-        const { text: extractedText, isAnswer, error } = extractAnswerFromChunk(lines[i] ?? '');
-        if (error) throw new Error(error);
-        if (extractedText) {
-          if (isAnswer && extractedText.length > longestAnswer.length) {
-            longestAnswer = extractedText;
-          } else if (!isAnswer && extractedText.length > longestThinking.length) {
-            longestThinking = extractedText;
-          }
-        }
-      }
-      i++;
-    } else {
-      const { text: extractedText, isAnswer, error } = extractAnswerFromChunk(line);
-      if (error) throw new Error(error);
-      if (extractedText) {
-        if (isAnswer && extractedText.length > longestAnswer.length) {
-          longestAnswer = extractedText;
-        } else if (!isAnswer && extractedText.length > longestThinking.length) {
-          longestThinking = extractedText;
-        }
-      }
-      i++;
+  const node = value as { name?: unknown; children?: unknown };
+  const children = Array.isArray(node.children) ? node.children : [];
+  return {
+    name: typeof node.name === "string" ? node.name : "",
+    children: children.map(decodeMindMapTree).filter((c): c is MindMapNode => c !== null),
+  };
+}
+
+/**
+ * Decode LIST_MIND_MAPS: [[[id, [id, json, metadata, null, title]], ...]]
+ * Deleted mind maps stay in the list with empty details
+ */
+export function decodeMindMaps(result: unknown): MindMap[] {
+  const mindMaps: MindMap[] = [];
+  if (!Array.isArray(result) || !Array.isArray(result[0])) return mindMaps;
+
+  for (const item of result[0]) {
+    if (!Array.isArray(item) || typeof item[0] !== "string" || !Array.isArray(item[1])) continue;
+    const mindMap = decodeMindMap(item[1]);
+    if (mindMap) mindMaps.push(mindMap);
+  }
+  return mindMaps;
+}
+
+/**
+ * Decode one saved mind map: [id, json, metadata, null, title]
+ */
+export function decodeMindMap(details: unknown): MindMap | null {
+  if (!Array.isArray(details) || typeof details[0] !== "string") return null;
+  const metadata = details[2];
+  return {
+    id: details[0],
+    title: typeof details[4] === "string" ? details[4] : "Mind Map",
+    createdAt: (Array.isArray(metadata) && parseTimestamp(metadata[2])) || "",
+    root: decodeMindMapTree(details[1]),
+  };
+}
+
+export interface QueryStreamCallbacks {
+  onAnswer?: (text: string) => void;
+  onThinking?: (text: string) => void;
+}
+
+export interface DecodedQuery {
+  answer: string;
+  conversationId: string | null;
+  turnId: string | null;
+  citations: Citation[];
+}
+
+/**
+ * Incremental decoder for the GenerateFreeFormStreamed body.
+ *
+ * Text is pushed as it arrives; complete lines are decoded immediately and
+ * a trailing partial line is held until the next push. Answer chunks are
+ * cumulative, so callbacks receive the full text seen so far.
+ */
+export class QueryStreamDecoder {
+  private buffer = "";
+  private started = false;
+  private longestAnswer = "";
+  private longestThinking = "";
+  private answerGrounding: GroundingEntry[] = [];
+  private conversationId: string | null = null;
+  private turnId: string | null = null;
+
+  constructor(private callbacks: QueryStreamCallbacks = {}) {}
+
+  /**
+   * Feed the next piece of the response body
+   */
+  push(text: string): void {
+    this.buffer += text;
+    if (!this.started) {
+      // Wait until the anti-XSSI prefix can be recognized
+      if (this.buffer.length < 4 && ")]}'".startsWith(this.buffer)) return;
+      this.buffer = stripXssiPrefix(this.buffer);
+      this.started = true;
+    }
+
+    let newline = this.buffer.indexOf("\n");
+    while (newline >= 0) {
+      this.consumeLine(this.buffer.slice(0, newline));
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  /**
+   * Flush any trailing line and return the final result
+   */
+  finish(): DecodedQuery {
+    if (!this.started) {
+      this.buffer = stripXssiPrefix(this.buffer);
+      this.started = true;
+    }
+    this.consumeLine(this.buffer);
+    this.buffer = "";
+
+    return {
+      answer: this.longestAnswer || this.longestThinking,
+      conversationId: this.conversationId,
+      turnId: this.turnId,
+      citations: this.longestAnswer ? decodeCitations(this.longestAnswer, this.answerGrounding) : [],
+    };
+  }
+
+  private consumeLine(raw: string): void {
+    const line = raw.trim();
+    // Skip blank lines and length prefixes
+    if (!line || /^\d+$/.test(line)) return;
+
+    const { text: extractedText, isAnswer, grounding, conversation, error } = extractAnswerFromChunk(line);
+    if (error) throw error;
+    if (conversation) {
+      this.conversationId = conversation.conversationId;
+      this.turnId = conversation.turnId ?? this.turnId;
+    }
+    if (!extractedText) return;
+
+    if (isAnswer && extractedText.length > this.longestAnswer.length) {
+      this.longestAnswer = extractedText;
+      this.answerGrounding = grounding;
+      this.callbacks.onAnswer?.(extractedText);
+    } else if (!isAnswer && extractedText.length > this.longestThinking.length) {
+      this.longestThinking = extractedText;
+      this.callbacks.onThinking?.(extractedText);
+    }
+  }
+}
+
+/**
+ * Decode a fully buffered streaming query response
+ */
+export function decodeQueryResponse(text: string): DecodedQuery {
+  const decoder = new QueryStreamDecoder();
+  decoder.push(text);
+  return decoder.finish();
+}
+
+/**
+ * Grounding entry attached to an answer chunk (one per citation number)
+ */
+interface GroundingEntry {
+  sourceId: string | null;
+  passage: string | null;
+}
+
+/**
+ * Decode grounding entries from an answer chunk's type info.
+ *
+ * Layout: typeInfo[3] is the citation list, numbered [1], [2], ... in order.
+ * Each entry is [[chunkId], [.., .., .., [sourceRange], [passages], [[[sourceId]]]]].
+ */
+function decodeGrounding(typeInfo: unknown[]): GroundingEntry[] {
+  if (!Array.isArray(typeInfo[3])) return [];
+
+  return typeInfo[3].map((cite: unknown) => {
+    const inner = Array.isArray(cite) && Array.isArray(cite[1]) ? cite[1] : [];
+    const passage = Array.isArray(inner[4]) ? extractAllText(inner[4]).join(" ").trim() : "";
+    return {
+      sourceId: firstString(inner[5]),
+      passage: passage || null,
+    };
+  });
+}
+
+/**
+ * Match inline citation markers like [1], [2, 3] or [1-3] in the answer
+ * against grounding entries. Entries never referenced inline are kept
+ * without an answer span.
+ */
+function decodeCitations(answer: string, grounding: GroundingEntry[]): Citation[] {
+  const citations: Citation[] = [];
+  const referenced = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*[,\u2013-]\s*\d+)*)\]/g)) {
+    const span = { start: match.index, end: match.index + match[0].length };
+    for (const n of expandCitationNumbers(match[1] ?? "")) {
+      const entry = grounding[n - 1];
+      if (!entry) continue;
+      referenced.add(n);
+      citations.push({ number: n, ...entry, sourceTitle: null, answerSpan: span });
     }
   }
 
+  grounding.forEach((entry, idx) => {
+    if (!referenced.has(idx + 1)) {
+      citations.push({ number: idx + 1, ...entry, sourceTitle: null, answerSpan: null });
+    }
+  });
+
+  return citations;
+}
+
+function expandCitationNumbers(marker: string): number[] {
+  const numbers: number[] = [];
+  for (const part of marker.split(",")) {
+    const [from, to] = part.split(/[\u2013-]/).map(n => parseInt(n.trim(), 10));
+    if (from === undefined || isNaN(from)) continue;
+    if (to === undefined || isNaN(to) || to < from) {
+      numbers.push(from);
+      continue;
+    }
+    for (let n = from; n <= to; n++) numbers.push(n);
+  }
+  return numbers;
+}
+
+function decodeConversationIds(data: unknown): { conversationId: string; turnId: string | null } | null {
+  if (!Array.isArray(data) || typeof data[0] !== "string" || !data[0]) return null;
   return {
-    answer: longestAnswer || longestThinking,
-    conversationId,
+    conversationId: data[0],
+    turnId: typeof data[1] === "string" && data[1] ? data[1] : null,
   };
 }
 
+function firstString(data: unknown): string | null {
+  if (typeof data === "string" && data.length > 0) return data;
+  if (!Array.isArray(data)) return null;
+  for (const item of data) {
+    const found = firstString(item);
+    if (found) return found;
+  }
+  return null;
+}
+
 /**
  * Helper to extract answer from a JSON chunk
  */
-function extractAnswerFromChunk(jsonStr: string): { text: string | null; isAnswer: boolean; error?: string } {
+function extractAnswerFromChunk(jsonStr: string): {
+  text: string | null;
+  isAnswer: boolean;
+  grounding: GroundingEntry[];
+  conversation?: { conversationId: string; turnId: string | null };
+  error?: AppError;
+} {
   try {
     const data = JSON.parse(jsonStr);
     if (!Array.isArray(data) || data.length === 0) {
-      return { text: null, isAnswer: false };
+      return { text: null, isAnswer: false, grounding: [] };
     }
 
     for (const item of data) {
@@ -420,9 +692,9 @@ function extractAnswerFromChunk(jsonStr: string): { text: string | null; isAnswe
       // Check for error signature
       if (item.length > 6 && item[6] === "generic") {
         if (Array.isArray(item[5]) && item[5].includes(16)) {
-          return { text: null, isAnswer: false, error: "Authentication expired (RPC Error 16). Please run 'save_auth_tokens'." };
+          return { text: null, isAnswer: false, grounding: [], error: AppError.rpcError(16) };
         }
-        return { text: null, isAnswer: false, error: "Generic RPC Error from NotebookLM." };
+        return { text: null, isAnswer: false, grounding: [], error: AppError.rpcError(0, "Generic RPC Error from NotebookLM.") };
       }
 
       const innerJsonStr = item[2];
@@ -434,20 +706,27 @@ function extractAnswerFromChunk(jsonStr: string): { text: string | null; isAnswe
         if (Array.isArray(innerData) && innerData.length > 0) {
           const firstElem = innerData[0];
           if (Array.isArray(firstElem) && firstElem.length > 0) {
+            // Server-issued [conversationId, turnId] rides along with every chunk
+            const conversation = decodeConversationIds(firstElem[2]);
             const answerText = firstElem[0];
             if (typeof answerText === "string" && answerText.length > 20) {
               let isAnswer = false;
+              let grounding: GroundingEntry[] = [];
               if (firstElem.length > 4 && Array.isArray(firstElem[4])) {
                 const typeInfo = firstElem[4];
                 const lastType = typeInfo[typeInfo.length - 1];
                 if (typeof lastType === "number") {
                   isAnswer = lastType === 1;
                 }
+                grounding = decodeGrounding(typeInfo);
               }
-              return { text: answerText, isAnswer };
+              return { text: answerText, isAnswer, grounding, ...(conversation && { conversation }) };
+            }
+            if (conversation) {
+              return { text: null, isAnswer: false, grounding: [], conversation };
             }
           } else if (typeof firstElem === "string" && firstElem.length > 20) {
-            return { text: firstElem, isAnswer: false };
+            return { text: firstElem, isAnswer: false, grounding: [] };
           }
         }
       } catch {
@@ -458,7 +737,7 @@ function extractAnswerFromChunk(jsonStr: string): { text: string | null; isAnswe
     // Skip non-JSON lines
   }
 
-  return { text: null, isAnswer: false };
+  return { text: null, isAnswer: false, grounding: [] };
 }
 
 /**
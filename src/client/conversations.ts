@@ -1,95 +1,293 @@
 /**
- * Conversation persistence using Bun native APIs
+ * Conversation persistence
+ *
+ * One JSON file per notebook under ~/.notebooklm-mcp/conversations/.
+ * Every write takes the file's lock, re-reads the file, merges the single
+ * conversation being changed, and replaces the file atomically (temp file +
+ * rename), so concurrent OpenCode sessions do not drop each other's turns.
  */
 
 import { homedir } from "node:os";
 import { join } from "node:path";
-import type { ConversationTurn } from "../types";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import type { ConversationRecord, ConversationTurn } from "../types";
+import { withFileLock } from "../state/lock";
 
 const CACHE_DIR = join(homedir(), ".notebooklm-mcp");
-const CACHE_PATH = join(CACHE_DIR, "conversations.json");
+const LEGACY_PATH = join(CACHE_DIR, "conversations.json");
+
+// Bounds: oldest turns / least recently updated conversations are evicted
+export const MAX_TURNS_PER_CONVERSATION = 50;
+export const MAX_CONVERSATIONS_PER_NOTEBOOK = 50;
+
+// Bucket for legacy conversations saved without a notebook ID
+const UNASSIGNED = "_unassigned";
+
+// Turns in the old global file carried their notebook ID
+type LegacyTurn = ConversationTurn & { notebookId?: string };
+
+interface NotebookConversationsFile {
+  version: 1;
+  notebookId: string | null;
+  conversations: Record<string, ConversationRecord>;
+}
+
+let storeDir = join(CACHE_DIR, "conversations");
+let legacyMigration: Promise<void> | null = null;
 
 /**
- * Load conversations from disk (sync for initialization)
+ * Override the storage directory (for testing)
  */
-export function loadConversations(): Map<string, ConversationTurn[]> {
-  const map = new Map<string, ConversationTurn[]>();
-  const file = Bun.file(CACHE_PATH);
+export function setConversationsDir(dir: string): void {
+  storeDir = dir;
+  legacyMigration = Promise.resolve();
+}
 
-  // Use sync check - Bun.file() is lazy, we need to check existence
-  try {
-    // Bun's synchronous file read pattern
-    const text = require("fs").readFileSync(CACHE_PATH, "utf-8");
-    const data = JSON.parse(text) as Record<string, ConversationTurn[]>;
+function notebookPath(notebookId: string | null): string {
+  const name = notebookId ? notebookId.replace(/[^\w-]/g, "_") : UNASSIGNED;
+  return join(storeDir, `${name}.json`);
+}
 
-    for (const [id, turns] of Object.entries(data)) {
-      if (Array.isArray(turns)) {
-        map.set(id, turns);
-      }
-    }
+function readFile(path: string): NotebookConversationsFile | null {
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as NotebookConversationsFile;
+    if (data && typeof data.conversations === "object") return data;
   } catch {
-    // File doesn't exist or invalid - return empty map
+    // Missing or invalid file
   }
+  return null;
+}
 
-  return map;
+function writeFileAtomic(path: string, data: NotebookConversationsFile): void {
+  if (!existsSync(storeDir)) {
+    mkdirSync(storeDir, { recursive: true });
+  }
+  const tmp = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    writeFileSync(tmp, JSON.stringify(data, null, 2));
+    renameSync(tmp, path);
+  } catch (e) {
+    try { unlinkSync(tmp); } catch { /* already gone */ }
+    throw e;
+  }
 }
 
 /**
- * Save conversations to disk (async for performance)
+ * Read-modify-write one notebook's file under its lock
  */
-export function saveConversations(map: Map<string, ConversationTurn[]>): void {
-  // Ensure directory exists
-  const fs = require("fs");
-  if (!fs.existsSync(CACHE_DIR)) {
-    fs.mkdirSync(CACHE_DIR, { recursive: true });
-  }
+async function updateNotebookFile(
+  notebookId: string | null,
+  mutate: (conversations: Record<string, ConversationRecord>) => void
+): Promise<void> {
+  const path = notebookPath(notebookId);
+  await withFileLock(path, () => {
+    const file = readFile(path) ?? { version: 1, notebookId, conversations: {} };
+    mutate(file.conversations);
 
-  // Convert Map to Record for JSON serialization
-  const data: Record<string, ConversationTurn[]> = Object.fromEntries(map);
+    // Evict least recently updated conversations beyond the cap
+    const records = Object.values(file.conversations);
+    if (records.length > MAX_CONVERSATIONS_PER_NOTEBOOK) {
+      records
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(MAX_CONVERSATIONS_PER_NOTEBOOK)
+        .forEach((r) => delete file.conversations[r.id]);
+    }
 
-  // Use Bun.write for async file writing (fire and forget)
-  Bun.write(CACHE_PATH, JSON.stringify(data, null, 2)).catch(() => {
-    // Silently fail - persistence is not critical
+    if (Object.keys(file.conversations).length === 0) {
+      try { unlinkSync(path); } catch { /* nothing to remove */ }
+      return;
+    }
+    writeFileAtomic(path, file);
   });
 }
 
 /**
- * Async version for when we can await
+ * One-time import of the old global conversations.json; concurrent callers
+ * wait for the same import
  */
-export async function loadConversationsAsync(): Promise<Map<string, ConversationTurn[]>> {
-  const map = new Map<string, ConversationTurn[]>();
-  const file = Bun.file(CACHE_PATH);
+function migrateLegacy(): Promise<void> {
+  legacyMigration ??= importLegacy();
+  return legacyMigration;
+}
 
-  if (!(await file.exists())) {
-    return map;
-  }
+async function importLegacy(): Promise<void> {
+  if (!existsSync(LEGACY_PATH)) return;
 
   try {
-    const text = await file.text();
-    const data = JSON.parse(text) as Record<string, ConversationTurn[]>;
+    const data = JSON.parse(readFileSync(LEGACY_PATH, "utf-8")) as Record<string, LegacyTurn[]>;
+    const byNotebook = new Map<string | null, ConversationRecord[]>();
 
     for (const [id, turns] of Object.entries(data)) {
-      if (Array.isArray(turns)) {
-        map.set(id, turns);
-      }
+      if (!Array.isArray(turns) || turns.length === 0) continue;
+      const notebookId = turns.find((t) => t.notebookId)?.notebookId ?? null;
+      const stamp = turns[turns.length - 1]?.createdAt ?? new Date(0).toISOString();
+      const records = byNotebook.get(notebookId) ?? [];
+      records.push({
+        id,
+        notebookId,
+        createdAt: turns[0]?.createdAt ?? stamp,
+        updatedAt: stamp,
+        sourceIds: [],
+        turns: turns.map(({ notebookId: _, ...turn }) => turn),
+      });
+      byNotebook.set(notebookId, records);
+    }
+
+    for (const [notebookId, records] of byNotebook) {
+      await updateNotebookFile(notebookId, (conversations) => {
+        for (const record of records) conversations[record.id] ??= record;
+      });
     }
+    renameSync(LEGACY_PATH, `${LEGACY_PATH}.migrated`);
   } catch {
-    // Invalid JSON - return empty map
+    // Leave the legacy file in place; persistence is not critical
   }
+}
 
-  return map;
+async function allFiles(): Promise<NotebookConversationsFile[]> {
+  await migrateLegacy();
+  if (!existsSync(storeDir)) return [];
+  return readdirSync(storeDir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => readFile(join(storeDir, name)))
+    .filter((file): file is NotebookConversationsFile => file !== null);
 }
 
 /**
- * Async save
+ * List conversations, optionally for a single notebook
  */
-export async function saveConversationsAsync(map: Map<string, ConversationTurn[]>): Promise<void> {
-  // Ensure directory exists using Bun shell
-  const fs = require("fs");
-  if (!fs.existsSync(CACHE_DIR)) {
-    fs.mkdirSync(CACHE_DIR, { recursive: true });
+export async function listConversations(notebookId?: string): Promise<ConversationRecord[]> {
+  await migrateLegacy();
+  const files = notebookId ? [readFile(notebookPath(notebookId))] : await allFiles();
+  return files.flatMap((file) => (file ? Object.values(file.conversations) : []));
+}
+
+/**
+ * Load one conversation; searches every notebook when notebookId is unknown
+ */
+export async function loadConversation(conversationId: string, notebookId?: string): Promise<ConversationRecord | null> {
+  await migrateLegacy();
+  if (notebookId) {
+    const found = readFile(notebookPath(notebookId))?.conversations[conversationId];
+    if (found) return found;
+  }
+  for (const file of await allFiles()) {
+    const found = file.conversations[conversationId];
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Drop the oldest turns beyond MAX_TURNS_PER_CONVERSATION
+ */
+function capTurns(record: ConversationRecord): void {
+  if (record.turns.length > MAX_TURNS_PER_CONVERSATION) {
+    record.turns = record.turns.slice(-MAX_TURNS_PER_CONVERSATION);
+  }
+}
+
+/**
+ * Append a turn, creating the conversation if needed
+ */
+export async function appendConversationTurn(
+  conversationId: string,
+  notebookId: string,
+  turn: { query: string; answer: string; sourceIds: string[]; turnId?: string | null }
+): Promise<ConversationRecord> {
+  await migrateLegacy();
+  const now = new Date().toISOString();
+  let saved!: ConversationRecord;
+
+  await updateNotebookFile(notebookId, (conversations) => {
+    const record = conversations[conversationId] ?? {
+      id: conversationId,
+      notebookId,
+      createdAt: now,
+      updatedAt: now,
+      sourceIds: [],
+      turns: [],
+    };
+    const lastTurn = record.turns[record.turns.length - 1];
+
+    record.turns.push({
+      query: turn.query,
+      answer: turn.answer,
+      turnNumber: (lastTurn?.turnNumber ?? 0) + 1,
+      createdAt: now,
+      sourceIds: turn.sourceIds,
+      ...(turn.turnId && { turnId: turn.turnId }),
+    });
+    capTurns(record);
+    record.sourceIds = [...new Set([...record.sourceIds, ...turn.sourceIds])];
+    record.updatedAt = now;
+
+    conversations[conversationId] = record;
+    saved = record;
+  });
+
+  return saved;
+}
+
+/**
+ * Re-key a conversation, e.g. when the server issues its own conversation ID
+ */
+export async function renameConversation(oldId: string, newId: string, notebookId?: string): Promise<boolean> {
+  const found = await loadConversation(oldId, notebookId);
+  if (!found || oldId === newId) return false;
+
+  let renamed = false;
+  await updateNotebookFile(found.notebookId, (conversations) => {
+    // Re-read under the lock: another session may have appended turns since
+    const record = conversations[oldId];
+    if (!record) return;
+    const existing = conversations[newId];
+    delete conversations[oldId];
+    const merged = existing
+      ? {
+          ...existing,
+          turns: [...record.turns, ...existing.turns],
+          sourceIds: [...new Set([...record.sourceIds, ...existing.sourceIds])],
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt > existing.updatedAt ? record.updatedAt : existing.updatedAt,
+        }
+      : { ...record, id: newId };
+    capTurns(merged);
+    conversations[newId] = merged;
+    renamed = true;
+  });
+  return renamed;
+}
+
+/**
+ * Delete a conversation; returns false if it was not found
+ */
+export async function deleteConversation(conversationId: string, notebookId?: string): Promise<boolean> {
+  const record = await loadConversation(conversationId, notebookId);
+  if (!record) return false;
+
+  await updateNotebookFile(record.notebookId, (conversations) => {
+    delete conversations[conversationId];
+  });
+  return true;
+}
+
+/**
+ * Render a conversation transcript as Markdown
+ */
+export function formatConversationMarkdown(record: ConversationRecord): string {
+  const lines = [`# NotebookLM Conversation`, ""];
+
+  lines.push(`- Conversation: \`${record.id}\``);
+  if (record.notebookId) {
+    lines.push(`- Notebook: [${record.notebookId}](https://notebooklm.google.com/notebook/${record.notebookId})`);
+  }
+  lines.push(`- Started: ${record.createdAt}`, `- Updated: ${record.updatedAt}`, `- Turns: ${record.turns.length}`, "");
+
+  for (const turn of record.turns) {
+    const when = turn.createdAt ? ` (${turn.createdAt})` : "";
+    lines.push(`## ${turn.turnNumber}. ${turn.query}${when}`, "", turn.answer.trim(), "");
   }
 
-  const data: Record<string, ConversationTurn[]> = Object.fromEntries(map);
-  await Bun.write(CACHE_PATH, JSON.stringify(data, null, 2));
+  return lines.join("\n");
 }
@@ -27,13 +27,8 @@ export function strictEncode(str: string): string {
   );
 }
 
-/**
- * Build form body for batchexecute RPC
- */
-export function buildRpcBody(rpcId: string, params: unknown, csrfToken?: string): string {
-  const paramsJson = jsonStringifyAscii(params);
-  const fReq = [[[rpcId, paramsJson, null, "generic"]]];
-  const fReqJson = jsonStringifyAscii(fReq);
+function buildEnvelopeBody(envelopes: unknown[], csrfToken?: string): string {
+  const fReqJson = jsonStringifyAscii([envelopes]);
 
   const parts = [`f.req=${strictEncode(fReqJson)}`];
   if (csrfToken) {
@@ -43,6 +38,26 @@ export function buildRpcBody(rpcId: string, params: unknown, csrfToken?: string)
   return parts.join("&") + "&";
 }
 
+/**
+ * Build form body for batchexecute RPC
+ */
+export function buildRpcBody(rpcId: string, params: unknown, csrfToken?: string): string {
+  return buildEnvelopeBody([[rpcId, jsonStringifyAscii(params), null, "generic"]], csrfToken);
+}
+
+/**
+ * Build form body carrying several RPCs in one batchexecute request.
+ * Envelopes are tagged "1", "2", ... and responses echo the tag, so
+ * repeated calls to the same RPC can be told apart.
+ */
+export function buildBatchRpcBody(
+  calls: { rpcId: string; params: unknown }[],
+  csrfToken?: string
+): string {
+  const envelopes = calls.map((c, i) => [c.rpcId, jsonStringifyAscii(c.params), null, String(i + 1)]);
+  return buildEnvelopeBody(envelopes, csrfToken);
+}
+
 /**
  * Build form body for streaming query RPC
  */
@@ -67,3 +82,79 @@ export function stripXssiPrefix(text: string): string {
   }
   return text;
 }
+
+/**
+ * Parse a chunked batchexecute/stream response into its JSON chunks
+ * (length-prefix lines and invalid JSON are skipped)
+ */
+export function parseChunkedResponse(responseText: string): unknown[] {
+  const text = stripXssiPrefix(responseText);
+  const lines = text.trim().split("\n");
+  const results: unknown[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]?.trim() ?? '';
+    if (!line) {
+      i++;
+      continue;
+    }
+
+    const byteCount = parseInt(line, 10);
+    if (!isNaN(byteCount)) {
+      i++;
+      if (i < lines.length) {
+        try {
+          results.push(JSON.parse(lines[i] ?? ''));
+        } catch {
+          // Skip invalid JSON
+        }
+      }
+      i++;
+    } else {
+      try {
+        results.push(JSON.parse(line));
+      } catch {
+        // Skip
+      }
+      i++;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Build a chunked response body (anti-XSSI prefix, length-prefixed JSON lines)
+ */
+export function buildChunkedResponse(chunks: unknown[]): string {
+  return ")]}'\n\n" + chunks.map((chunk) => {
+    const json = JSON.stringify(chunk);
+    return `${json.length}\n${json}\n`;
+  }).join("");
+}
+
+/**
+ * Read the RPC envelopes ([rpcId, paramsJson, null, tag]) back out of a
+ * batchexecute form body
+ */
+export function parseRpcBody(body: string): unknown[][] {
+  try {
+    const fReq = JSON.parse(new URLSearchParams(body).get("f.req") ?? "");
+    return Array.isArray(fReq?.[0]) ? fReq[0].filter(Array.isArray) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read the query params back out of a streaming query form body
+ */
+export function parseQueryBody(body: string): unknown {
+  try {
+    const fReq = JSON.parse(new URLSearchParams(body).get("f.req") ?? "");
+    return typeof fReq?.[1] === "string" ? JSON.parse(fReq[1]) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Record/replay fixtures
+ *
+ * Record mode saves every RPC result (and every streamed query body) as
+ * <dir>/<rpcId>-<hash>.json, keyed by rpc id and normalized params, with
+ * cookies, CSRF token and session ID scrubbed. Replay mode answers from
+ * those files instead of the network, so the tools can run offline and
+ * deterministically in CI. Repeated calls (status polls) replay their
+ * recorded responses in order, then keep returning the last one.
+ */
+
+import { createHash } from "node:crypto";
+import { dirname, join } from "node:path";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { AppError } from "../errors";
+import { buildChunkedResponse, parseChunkedResponse, parseQueryBody, parseRpcBody } from "./encoding";
+import type { Interceptor, RequestContext } from "./interceptors";
+
+// Key used for streaming queries
+export const QUERY_FIXTURE = "query";
+
+export interface Fixture {
+  version: 1;
+  rpcId: string;
+  params: unknown;
+  // wrb.fr entries for RPCs, full response bodies for queries
+  responses: unknown[];
+}
+
+// Scrubbed values are replaced with this
+const REDACTED = "<redacted>";
+
+// Shorter secrets would match unrelated text
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Stable JSON for matching: object keys sorted, and the per-request
+ * conversation ID of a query dropped (follow-ups differ by history instead)
+ */
+export function normalizeParams(rpcId: string, params: unknown): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, sortKeys(v)])
+      );
+    }
+    return value;
+  };
+
+  let normalized = params;
+  if (rpcId === QUERY_FIXTURE && Array.isArray(params)) {
+    normalized = params.map((p, i) => (i === 4 ? null : p));
+  }
+  return JSON.stringify(sortKeys(normalized));
+}
+
+export function fixturePath(dir: string, rpcId: string, params: unknown): string {
+  const hash = createHash("sha256").update(`${rpcId}:${normalizeParams(rpcId, params)}`).digest("hex").slice(0, 16);
+  return join(dir, `${rpcId.replace(/[^\w-]/g, "_")}-${hash}.json`);
+}
+
+/**
+ * Replace every secret in a serialized fixture
+ */
+export function scrubSecrets(text: string, secrets: string[]): string {
+  return secrets
+    .filter((s) => s.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length)
+    .reduce((out, secret) => out.split(secret).join(REDACTED), text);
+}
+
+function readFixture(path: string): Fixture | null {
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as Fixture;
+    if (data && Array.isArray(data.responses)) return data;
+  } catch {
+    // Missing or invalid file
+  }
+  return null;
+}
+
+function writeFixture(path: string, fixture: Fixture, secrets: string[]): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, scrubSecrets(JSON.stringify(fixture, null, 2), secrets));
+  renameSync(tmp, path);
+}
+
+/**
+ * A wrb.fr entry with its envelope tag (slot 6) set
+ */
+function withTag(item: unknown[], tag: unknown): unknown[] {
+  const out: unknown[] = Array.from({ length: Math.max(item.length, 7) }, (_, i) => item[i] ?? null);
+  out[6] = tag;
+  return out;
+}
+
+/**
+ * The calls carried by a request: each RPC envelope, or the query params
+ */
+function requestCalls(ctx: RequestContext): { rpcId: string; params: unknown; tag: unknown }[] {
+  if (ctx.kind === "query") {
+    return [{ rpcId: QUERY_FIXTURE, params: parseQueryBody(ctx.body), tag: null }];
+  }
+  return parseRpcBody(ctx.body).map(([rpcId, paramsJson, , tag]) => {
+    let params: unknown = paramsJson;
+    try {
+      params = JSON.parse(String(paramsJson));
+    } catch {
+      // Keep the raw string
+    }
+    return { rpcId: String(rpcId), params, tag };
+  });
+}
+
+/**
+ * Save successful responses as fixtures. The first recording of a key in
+ * this run replaces older fixtures; later ones are appended in order.
+ */
+export function recordInterceptor(dir: string, getSecrets: () => string[]): Interceptor {
+  const recorded = new Set<string>();
+
+  const save = (rpcId: string, params: unknown, response: unknown) => {
+    const path = fixturePath(dir, rpcId, params);
+    const previous = recorded.has(path) ? readFixture(path) : null;
+    recorded.add(path);
+    writeFixture(path, {
+      version: 1,
+      rpcId,
+      params,
+      responses: [...(previous?.responses ?? []), response],
+    }, getSecrets());
+  };
+
+  return {
+    name: "record",
+    onResponse: async (ctx, response) => {
+      if (!response.ok) return;
+      try {
+        const text = await response.clone().text();
+        const calls = requestCalls(ctx);
+
+        if (ctx.kind === "query") {
+          save(QUERY_FIXTURE, calls[0]?.params, text);
+          return;
+        }
+
+        const items = parseChunkedResponse(text)
+          .filter(Array.isArray)
+          .flat()
+          .filter((item): item is unknown[] => Array.isArray(item) && item[0] === "wrb.fr");
+        for (const call of calls) {
+          const item = items.find((i) => i[1] === call.rpcId && (i[6] === call.tag || call.tag === "generic"));
+          if (item) save(call.rpcId, call.params, withTag(item, null));
+        }
+      } catch {
+        // Recording is best-effort; the live response is still used
+      }
+    },
+  };
+}
+
+/**
+ * Answer every request from fixtures instead of the network
+ */
+export function replayInterceptor(dir: string): Interceptor {
+  // Responses served so far, per fixture file
+  const served = new Map<string, number>();
+
+  const next = (rpcId: string, params: unknown): unknown => {
+    const path = fixturePath(dir, rpcId, params);
+    const fixture = readFixture(path);
+    if (!fixture || fixture.responses.length === 0) {
+      throw new AppError({
+        code: 'NOT_FOUND',
+        message: `No recorded fixture for ${rpcId} (${path})`,
+        retryable: false,
+        suggestion: 'Record it with NOTEBOOKLM_TRANSPORT_MODE=record',
+      });
+    }
+    const index = served.get(path) ?? 0;
+    served.set(path, index + 1);
+    return fixture.responses[Math.min(index, fixture.responses.length - 1)];
+  };
+
+  return {
+    name: "replay",
+    onRequest: (ctx) => {
+      const calls = requestCalls(ctx);
+      if (ctx.kind === "query") {
+        return new Response(String(next(QUERY_FIXTURE, calls[0]?.params)));
+      }
+
+      // Recorded entries get this request's tags back
+      const items = calls.map((call) => {
+        const item = next(call.rpcId, call.params);
+        return Array.isArray(item) ? withTag(item, call.tag) : item;
+      });
+      return new Response(buildChunkedResponse([items]));
+    },
+  };
+}
@@ -7,14 +7,21 @@
  * - Codec: Response parsing
  */
 
+import { resolve } from "node:path";
 import { getAuthManager } from "../auth/manager";
 import { cookiesToHeader } from "../auth/tokens";
 import { AppError } from "../errors";
 import { RpcTransport } from "./transport";
+import type { Interceptor } from "./interceptors";
+import { RateLimiter } from "./rate-limiter";
+import { recordInterceptor, replayInterceptor } from "./fixtures";
+import { Config, getProjectDir } from "../config";
+import type { QueryStreamCallbacks } from "./codec";
+import type { StudioCreateType, StudioOptionsMap, DiscoveredSource, ResearchImportPolicy } from "../types";
 import { NotebookService } from "./services/notebook";
 import { SourceService } from "./services/source";
 import { QueryService } from "./services/query";
-import { ResearchService } from "./services/research";
+import { ResearchService, defaultImportPolicy, planResearchImport } from "./services/research";
 import { StudioService } from "./services/studio";
 
 export class NotebookLMClient {
@@ -29,7 +36,9 @@ export class NotebookLMClient {
 
   constructor() {
     const authManager = getAuthManager();
-    const tokens = authManager.getTokens();
+    const replay = Config.TRANSPORT_MODE === 'replay';
+    // Replay never reaches Google, so it runs without saved tokens
+    const tokens = authManager.getTokens() ?? (replay ? { cookies: {}, csrfToken: '', sessionId: '', backendLabel: undefined } : null);
 
     if (!tokens) {
       throw AppError.authMissing();
@@ -40,9 +49,15 @@ export class NotebookLMClient {
       cookies: tokens.cookies,
       csrfToken: tokens.csrfToken,
       sessionId: tokens.sessionId,
+      backendLabel: tokens.backendLabel,
       onAuthRefresh: () => authManager.refreshCsrf(),
       onDiskReload: () => authManager.initialize(),
       onCDPRefresh: () => authManager.refresh(),
+      ...(replay && {
+        // Fixtures are not rate limited
+        rateLimiter: new RateLimiter({ global: { capacity: Infinity, refillMs: 1 }, budgets: {} }),
+      }),
+      interceptors: this.fixtureInterceptors(),
     });
 
     // Initialize services
@@ -58,12 +73,38 @@ export class NotebookLMClient {
         this.transport.updateFullAuth(
           state.tokens.cookies,
           state.tokens.csrfToken,
-          state.tokens.sessionId
+          state.tokens.sessionId,
+          state.tokens.backendLabel
         );
       }
     });
   }
 
+  /**
+   * Record or replay fixtures, per Config.TRANSPORT_MODE
+   */
+  private fixtureInterceptors(): Interceptor[] {
+    const dir = resolve(getProjectDir(), Config.FIXTURES_DIR);
+    if (Config.TRANSPORT_MODE === 'replay') {
+      return [replayInterceptor(dir)];
+    }
+    if (Config.TRANSPORT_MODE === 'record') {
+      // Scrub whatever tokens are current when a fixture is written
+      return [recordInterceptor(dir, () => {
+        const tokens = getAuthManager().getTokens();
+        return tokens ? [...Object.values(tokens.cookies), tokens.csrfToken, tokens.sessionId] : [];
+      })];
+    }
+    return [];
+  }
+
+  /**
+   * Add a request interceptor (logging, header injection, fault injection)
+   */
+  use(interceptor: Interceptor): void {
+    this.transport.use(interceptor);
+  }
+
   // =========================================================================
   // Convenience methods (delegates to services)
   // =========================================================================
@@ -89,26 +130,38 @@ export class NotebookLMClient {
   }
 
   // Source operations
-  async addUrlSource(notebookId: string, url: string) {
-    return this.sources.addUrl(notebookId, url);
+  // knownSourceIds: a current listing of the notebook, saves re-listing it before the add
+  async addUrlSource(notebookId: string, url: string, knownSourceIds?: ReadonlySet<string>) {
+    return this.sources.addUrl(notebookId, url, knownSourceIds);
   }
-  async addUrlSources(notebookId: string, urls: string[]) {
-    return this.sources.addUrls(notebookId, urls);
+  async addUrlSources(notebookId: string, urls: string[], knownSourceIds?: ReadonlySet<string>) {
+    return this.sources.addUrls(notebookId, urls, knownSourceIds);
   }
-  async addTextSource(notebookId: string, text: string, title?: string) {
-    return this.sources.addText(notebookId, text, title);
+  async addTextSource(notebookId: string, text: string, title?: string, knownSourceIds?: ReadonlySet<string>) {
+    return this.sources.addText(notebookId, text, title, knownSourceIds);
   }
   async addDriveSource(
     notebookId: string,
     docId: string,
     title: string,
-    mimeType: string
+    mimeType: string,
+    knownSourceIds?: ReadonlySet<string>
   ) {
-    return this.sources.addDrive(notebookId, docId, title, mimeType);
+    return this.sources.addDrive(notebookId, docId, title, mimeType, knownSourceIds);
+  }
+  async getNotebookInfo(id: string) {
+    return this.notebooks.get(id);
+  }
+  async listSources(notebookId: string) {
+    const notebook = await this.notebooks.get(notebookId);
+    return notebook?.sources ?? [];
   }
   async getSourceGuide(sourceId: string) {
     return this.sources.getGuide(sourceId);
   }
+  async getSourceGuides(sourceIds: string[]) {
+    return this.sources.getGuides(sourceIds);
+  }
   async getSourceContent(sourceId: string) {
     return this.sources.getContent(sourceId);
   }
@@ -122,16 +175,29 @@ export class NotebookLMClient {
     queryText: string,
     sourceIds?: string[],
     conversationId?: string,
-    timeout?: number
+    timeout?: number,
+    callbacks?: QueryStreamCallbacks
   ) {
     return this.queries.query(notebookId, queryText, {
       ...(sourceIds && { sourceIds }),
       ...(conversationId && { conversationId }),
       ...(timeout && { timeout }),
+      ...(callbacks && { callbacks }),
       getNotebookRaw: () => this.notebooks.getRaw(notebookId),
     });
   }
 
+  // Conversation operations
+  listConversations(notebookId?: string) {
+    return this.queries.listConversations(notebookId);
+  }
+  getConversation(conversationId: string) {
+    return this.queries.getConversation(conversationId);
+  }
+  clearConversation(conversationId: string) {
+    return this.queries.clearConversation(conversationId);
+  }
+
   // Research operations
   async startResearch(
     query: string,
@@ -162,19 +228,37 @@ export class NotebookLMClient {
   ) {
     return this.research.importSources(notebookId, taskId, indices);
   }
+  /**
+   * Filter discovered sources through an import policy, deduplicating
+   * against URLs already in the notebook
+   */
+  async planResearchImport(
+    notebookId: string,
+    sources: DiscoveredSource[],
+    policy: ResearchImportPolicy = defaultImportPolicy()
+  ) {
+    const existing = policy.skipExisting ? await this.listSources(notebookId) : [];
+    const urls = existing.map((s) => s.url).filter((url): url is string => !!url);
+    return planResearchImport(sources, policy, urls);
+  }
 
   // Studio operations
-  async createStudioContent(
+  async createStudioContent<T extends StudioCreateType>(
     notebookId: string,
-    type: any,
-    options?: Record<string, unknown>,
+    type: T,
+    options: StudioOptionsMap[T],
     sourceIds?: string[]
   ) {
-    return this.studio.create(notebookId, type, options, sourceIds);
+    // Studio generation needs explicit sources; default to all of them
+    const ids = sourceIds?.length ? sourceIds : (await this.listSources(notebookId)).map((s) => s.id);
+    return this.studio.create(notebookId, type, options, ids);
   }
   async pollStudioStatus(notebookId: string) {
     return this.studio.pollStatus(notebookId);
   }
+  async downloadStudioArtifact(notebookId: string, artifactId: string) {
+    return this.studio.download(notebookId, artifactId);
+  }
   async deleteStudioArtifact(notebookId: string, artifactId: string) {
     return this.studio.delete(notebookId, artifactId);
   }
@@ -183,7 +267,14 @@ export class NotebookLMClient {
     sourceIds?: string[],
     title?: string
   ) {
-    return this.studio.createMindMap(notebookId, sourceIds, title);
+    const ids = sourceIds?.length ? sourceIds : (await this.listSources(notebookId)).map((s) => s.id);
+    return this.studio.createMindMap(notebookId, ids, title);
+  }
+  async listMindMaps(notebookId: string) {
+    return this.studio.listMindMaps(notebookId);
+  }
+  async deleteMindMap(notebookId: string, mindMapId: string) {
+    return this.studio.deleteMindMap(notebookId, mindMapId);
   }
 }
 
@@ -207,10 +298,12 @@ export async function getClient(): Promise<NotebookLMClient> {
   
   // Create new client with single-flight
   _clientPromise = (async () => {
-    const authManager = getAuthManager();
-    const valid = await authManager.ensureValid();
-    if (!valid) {
-      throw AppError.authMissing();
+    if (Config.TRANSPORT_MODE !== 'replay') {
+      const authManager = getAuthManager();
+      const valid = await authManager.ensureValid();
+      if (!valid) {
+        throw AppError.authMissing();
+      }
     }
     _client = new NotebookLMClient();
     return _client;
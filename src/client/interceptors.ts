@@ -0,0 +1,283 @@
+/**
+ * Request interceptors for RpcTransport
+ *
+ * Every batchexecute call and streaming query runs through one chain:
+ * onRequest hooks run in order before sending, onResponse/onError hooks run
+ * in reverse order afterwards and may ask for a retry or supply the result.
+ * Rate limiting, URL session params, auth recovery and retries are built-in
+ * interceptors; custom ones (logging, headers, fault injection) are added
+ * with RpcTransport.use().
+ */
+
+import { AppError, isAuthError, wrapError } from "../errors";
+import type { RateLimiter } from "./rate-limiter";
+import { parseRetryAfter } from "./rate-limiter";
+
+export interface RequestContext {
+  // batchexecute RPC(s) or the streaming query endpoint
+  readonly kind: "rpc" | "query";
+  // RPC ids carried by the request ("query" for streaming queries)
+  readonly rpcIds: readonly string[];
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+  timeout: number;
+  // 0 for the first send, incremented on every retry
+  attempt: number;
+  // Resending may duplicate a write (see isIdempotent)
+  readonly unsafe: boolean;
+  // For unsafe requests: what the request would have returned if it already
+  // took effect, or null if it did not
+  readonly reconcile?: (() => Promise<unknown>) | undefined;
+}
+
+export type InterceptorAction =
+  | { type: "retry" }
+  | { type: "resolve"; value: unknown };
+
+type Awaitable<T> = T | Promise<T>;
+
+export interface Interceptor {
+  name: string;
+  // Edit the request before it is sent, or return a Response to skip the network
+  onRequest?: ((ctx: RequestContext) => Awaitable<Response | void>) | undefined;
+  // Inspect a response before it is read; return an action to retry or resolve instead
+  onResponse?: ((ctx: RequestContext, response: Response) => Awaitable<InterceptorAction | void>) | undefined;
+  // Handle a failed send or read; without an action the error is thrown
+  onError?: ((ctx: RequestContext, error: unknown) => Awaitable<InterceptorAction | void>) | undefined;
+}
+
+export interface PreparedRequest {
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Hard stop in case interceptors keep asking for retries
+const MAX_ATTEMPTS = 10;
+
+// Later interceptors (custom hooks) see responses and errors first
+async function firstAction(
+  interceptors: readonly Interceptor[],
+  handle: (interceptor: Interceptor) => Awaitable<InterceptorAction | void>
+): Promise<InterceptorAction | void> {
+  for (let i = interceptors.length - 1; i >= 0; i--) {
+    const action = await handle(interceptors[i]!);
+    if (action) return action;
+  }
+}
+
+/**
+ * Send a request through the chain until it is read, resolved or fails.
+ * prepare() rebuilds url/headers/body for each attempt (fresh tokens);
+ * read() turns a response into the result and may throw into onError.
+ */
+export async function runInterceptors<T>(
+  interceptors: readonly Interceptor[],
+  init: Pick<RequestContext, "kind" | "rpcIds" | "timeout" | "unsafe" | "reconcile">,
+  prepare: (attempt: number) => PreparedRequest,
+  read: (response: Response, ctx: RequestContext) => Promise<T>
+): Promise<T> {
+  const ctx: RequestContext = { ...init, attempt: 0, ...prepare(0) };
+
+  for (; ctx.attempt < MAX_ATTEMPTS; ctx.attempt++) {
+    let action: InterceptorAction | void;
+    try {
+      if (ctx.attempt > 0) Object.assign(ctx, prepare(ctx.attempt));
+
+      let injected: Response | void = undefined;
+      for (const interceptor of interceptors) {
+        injected = await interceptor.onRequest?.(ctx);
+        if (injected) break;
+      }
+      const response = injected ?? await fetch(ctx.url, {
+        method: "POST",
+        headers: ctx.headers,
+        body: ctx.body,
+        signal: AbortSignal.timeout(ctx.timeout),
+      });
+
+      action = await firstAction(interceptors, (i) => i.onResponse?.(ctx, response));
+      if (!action) return await read(response, ctx);
+    } catch (e) {
+      action = await firstAction(interceptors, (i) => i.onError?.(ctx, e));
+      if (!action) throw wrapError(e);
+    }
+    if (action.type === "resolve") return action.value as T;
+  }
+
+  throw new AppError({
+    code: 'NETWORK_ERROR',
+    message: 'Request failed after retries',
+    retryable: false,
+  });
+}
+
+// =========================================================================
+// Built-in interceptors
+// =========================================================================
+
+/**
+ * Wait for the shared token buckets before every send
+ */
+export function rateLimitInterceptor(limiter: RateLimiter): Interceptor {
+  return {
+    name: "rate-limit",
+    onRequest: async (ctx) => {
+      await limiter.acquire([...ctx.rpcIds]);
+    },
+  };
+}
+
+/**
+ * Add the session query params (backend label, language, session id)
+ */
+export function sessionParamsInterceptor(getSession: () => { sessionId: string; bl: string }): Interceptor {
+  return {
+    name: "session-params",
+    onRequest: (ctx) => {
+      const { sessionId, bl } = getSession();
+      ctx.url.searchParams.set("bl", bl);
+      ctx.url.searchParams.set("hl", "en");
+      ctx.url.searchParams.set("rt", "c");
+      if (sessionId) {
+        ctx.url.searchParams.set("f.sid", sessionId);
+      }
+    },
+  };
+}
+
+export interface AuthRecoveryOptions {
+  onAuthRefresh?: (() => Promise<boolean>) | undefined;
+  onDiskReload?: (() => Promise<boolean>) | undefined;
+  onCDPRefresh?: (() => Promise<boolean>) | undefined;
+}
+
+/**
+ * 4-layer auth recovery on auth errors (HTTP 401/403 or RPC error 16):
+ * auth refresh → disk reload → CDP → fail
+ */
+export function authRecoveryInterceptor(options: AuthRecoveryOptions): Interceptor {
+  const { onAuthRefresh, onDiskReload, onCDPRefresh } = options;
+  // Layers tried so far, per request
+  const tried = new WeakMap<RequestContext, { authRetried: boolean; diskReloaded: boolean; cdpRefreshed: boolean }>();
+
+  return {
+    name: "auth-recovery",
+    onError: async (ctx, error) => {
+      if (!isAuthError(error) || !onAuthRefresh) return;
+      let state = tried.get(ctx);
+      if (!state) {
+        state = { authRetried: false, diskReloaded: false, cdpRefreshed: false };
+        tried.set(ctx, state);
+      }
+      if (state.authRetried) return;
+
+      state.authRetried = true;
+      const refreshed = await onAuthRefresh();
+      if (refreshed) return { type: "retry" };
+
+      // Try disk reload
+      if (onDiskReload && !state.diskReloaded) {
+        state.diskReloaded = true;
+        const reloaded = await onDiskReload();
+        if (reloaded) {
+          state.authRetried = false;
+          return { type: "retry" };
+        }
+      }
+
+      // Try CDP refresh
+      if (onCDPRefresh && !state.cdpRefreshed) {
+        state.cdpRefreshed = true;
+        const cdpOk = await onCDPRefresh();
+        if (cdpOk) {
+          state.authRetried = false;
+          state.diskReloaded = false;
+          return { type: "retry" };
+        }
+      }
+    },
+  };
+}
+
+// Don't let a tool hang longer than this on one Retry-After
+const MAX_RETRY_AFTER = 60000;
+
+/**
+ * Decide what to do after an unsafe request failed in a way that may have
+ * reached the server: resolve with the reconciled result, or retry if it did
+ * not take effect. Without a reconciler (or if it fails) the original error
+ * is thrown rather than risk a duplicate.
+ */
+async function settleUnsafe(ctx: RequestContext, error: AppError): Promise<InterceptorAction> {
+  const giveUp = () => new AppError({
+    code: error.code,
+    message: `${error.message} (request may have been applied, so it was not resent)`,
+    ...(error.statusCode !== undefined && { statusCode: error.statusCode }),
+    retryable: false,
+    suggestion: 'Check whether it took effect (e.g. list sources or notebooks) before trying again',
+  });
+
+  if (!ctx.reconcile) throw giveUp();
+  let existing: unknown;
+  try {
+    existing = await ctx.reconcile();
+  } catch {
+    throw giveUp();
+  }
+  return existing == null ? { type: "retry" } : { type: "resolve", value: existing };
+}
+
+/**
+ * Retry 5xx/429 responses and network errors with exponential backoff.
+ * Retry-After (or the backoff) pauses the shared limiter for every transport.
+ * Unsafe requests are reconciled before being resent.
+ */
+export function retryInterceptor(limiter: RateLimiter, maxRetries = 3): Interceptor {
+  return {
+    name: "retry",
+    onResponse: async (ctx, response) => {
+      if ((response.status < 500 && response.status !== 429) || ctx.attempt >= maxRetries) return;
+
+      // Honor Retry-After; otherwise back off exponentially,
+      // longer for 429 (start at 2s) vs 5xx (start at 1s)
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      const baseDelay = response.status === 429 ? 2000 : 1000;
+      limiter.pause(retryAfter !== null ? Math.min(retryAfter, MAX_RETRY_AFTER) : baseDelay * Math.pow(2, ctx.attempt));
+
+      // 429 is rejected outright; a 5xx may come after the server applied the request
+      if (ctx.unsafe && response.status >= 500) {
+        return settleUnsafe(ctx, AppError.fromStatus(response.status));
+      }
+      return { type: "retry" };
+    },
+    onError: async (ctx, error) => {
+      // Network/timeout errors only; AppErrors are final or handled elsewhere
+      if (error instanceof AppError || ctx.attempt >= maxRetries) return;
+
+      const delay = 1000 * Math.pow(2, ctx.attempt);
+      await Bun.sleep(delay);
+      if (ctx.unsafe) {
+        return settleUnsafe(ctx, wrapError(error));
+      }
+      return { type: "retry" };
+    },
+  };
+}
+
+/**
+ * Default chain, in order
+ */
+export function defaultInterceptors(
+  limiter: RateLimiter,
+  getSession: () => { sessionId: string; bl: string },
+  auth: AuthRecoveryOptions
+): Interceptor[] {
+  return [
+    rateLimitInterceptor(limiter),
+    sessionParamsInterceptor(getSession),
+    authRecoveryInterceptor(auth),
+    retryInterceptor(limiter),
+  ];
+}
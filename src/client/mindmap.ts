@@ -0,0 +1,55 @@
+/**
+ * Mind map rendering
+ *
+ * Turns a decoded mind map tree into text an agent can drop into docs:
+ * a Mermaid `mindmap` block or an indented Markdown outline.
+ */
+
+import type { MindMapNode } from "../types";
+
+function label(node: MindMapNode): string {
+  return node.name.replace(/\s+/g, " ").trim() || "Untitled";
+}
+
+/**
+ * Render as a fenced Mermaid mindmap; labels are quoted so brackets and
+ * parentheses in node names are not parsed as shapes
+ */
+export function formatMindMapMermaid(root: MindMapNode): string {
+  const lines = ["```mermaid", "mindmap"];
+  const quote = (node: MindMapNode) => `"${label(node).replace(/"/g, "#quot;")}"`;
+
+  lines.push(`  root((${quote(root)}))`);
+  const walk = (node: MindMapNode, depth: number) => {
+    for (const child of node.children) {
+      lines.push(`${"  ".repeat(depth)}[${quote(child)}]`);
+      walk(child, depth + 1);
+    }
+  };
+  walk(root, 2);
+
+  lines.push("```");
+  return lines.join("\n");
+}
+
+/**
+ * Render as a Markdown outline: root as heading, descendants as nested bullets
+ */
+export function formatMindMapOutline(root: MindMapNode): string {
+  const lines = [`# ${label(root)}`, ""];
+  const walk = (node: MindMapNode, depth: number) => {
+    for (const child of node.children) {
+      lines.push(`${"  ".repeat(depth)}- ${label(child)}`);
+      walk(child, depth + 1);
+    }
+  };
+  walk(root, 0);
+  return lines.join("\n");
+}
+
+/**
+ * Count nodes in the tree, root included
+ */
+export function countMindMapNodes(root: MindMapNode): number {
+  return 1 + root.children.reduce((sum, child) => sum + countMindMapNodes(child), 0);
+}
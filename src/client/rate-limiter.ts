@@ -0,0 +1,155 @@
+/**
+ * Rate limiter for NotebookLM requests
+ *
+ * Token buckets shared by every RpcTransport in the process: one global
+ * bucket for all requests plus per-RPC buckets for the expensive mutations
+ * Google throttles hardest. A Retry-After from the server pauses everything.
+ */
+
+import { RPC_IDS } from "../config";
+
+export interface BucketConfig {
+  // Burst size
+  capacity: number;
+  // Time to regain one token (ms)
+  refillMs: number;
+}
+
+// Steady state of two requests per second, bursts of five
+const GLOBAL_BUDGET: BucketConfig = { capacity: 5, refillMs: 500 };
+
+// RPCs without an entry only draw from the global bucket
+const RPC_BUDGETS: Record<string, BucketConfig> = {
+  [RPC_IDS.ADD_SOURCE]: { capacity: 3, refillMs: 3000 },
+  [RPC_IDS.CREATE_NOTEBOOK]: { capacity: 2, refillMs: 5000 },
+  [RPC_IDS.CREATE_STUDIO]: { capacity: 1, refillMs: 10000 },
+  [RPC_IDS.START_FAST_RESEARCH]: { capacity: 1, refillMs: 10000 },
+  [RPC_IDS.START_DEEP_RESEARCH]: { capacity: 1, refillMs: 30000 },
+  [RPC_IDS.IMPORT_RESEARCH]: { capacity: 2, refillMs: 5000 },
+  [RPC_IDS.GENERATE_MIND_MAP]: { capacity: 1, refillMs: 10000 },
+  // Streaming queries (not a batchexecute RPC)
+  query: { capacity: 2, refillMs: 2000 },
+};
+
+export interface RateLimiterOptions {
+  global?: BucketConfig | undefined;
+  budgets?: Record<string, BucketConfig> | undefined;
+  // Clock and sleep, injectable for testing
+  now?: (() => number) | undefined;
+  sleep?: ((ms: number) => Promise<unknown>) | undefined;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private config: BucketConfig, now: number) {
+    this.tokens = config.capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number): void {
+    const gained = (now - this.updatedAt) / this.config.refillMs;
+    this.tokens = Math.min(this.config.capacity, this.tokens + gained);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Time until `count` tokens are available (0 if they are now)
+   */
+  waitTime(count: number, now: number): number {
+    this.refill(now);
+    const needed = Math.min(count, this.config.capacity) - this.tokens;
+    return needed <= 0 ? 0 : Math.ceil(needed * this.config.refillMs);
+  }
+
+  take(count: number): void {
+    this.tokens -= Math.min(count, this.config.capacity);
+  }
+}
+
+export class RateLimiter {
+  private global: TokenBucket;
+  private buckets = new Map<string, TokenBucket>();
+  private budgets: Record<string, BucketConfig>;
+  private pausedUntil = 0;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<unknown>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? Bun.sleep;
+    this.global = new TokenBucket(options.global ?? GLOBAL_BUDGET, this.now());
+    this.budgets = options.budgets ?? RPC_BUDGETS;
+  }
+
+  private bucket(rpcId: string): TokenBucket | undefined {
+    const config = this.budgets[rpcId];
+    if (!config) return undefined;
+    let bucket = this.buckets.get(rpcId);
+    if (!bucket) {
+      bucket = new TokenBucket(config, this.now());
+      this.buckets.set(rpcId, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Wait until one request carrying these RPCs may be sent.
+   * Takes one global token plus one per-RPC token per call in the request.
+   */
+  async acquire(rpcIds: string[]): Promise<void> {
+    const counts = new Map<string, number>();
+    for (const id of rpcIds) counts.set(id, (counts.get(id) ?? 0) + 1);
+
+    for (;;) {
+      const now = this.now();
+      let wait = Math.max(0, this.pausedUntil - now, this.global.waitTime(1, now));
+      for (const [id, count] of counts) {
+        wait = Math.max(wait, this.bucket(id)?.waitTime(count, now) ?? 0);
+      }
+
+      if (wait === 0) {
+        this.global.take(1);
+        for (const [id, count] of counts) this.bucket(id)?.take(count);
+        return;
+      }
+      await this.sleep(wait);
+    }
+  }
+
+  /**
+   * Hold every request for `ms` (e.g. from Retry-After)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+}
+
+/**
+ * Parse Retry-After (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+let shared: RateLimiter | null = null;
+
+/**
+ * Process-wide limiter used by every transport
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!shared) shared = new RateLimiter();
+  return shared;
+}
+
+/**
+ * Replace the process-wide limiter (for testing); null restores the default
+ */
+export function setRateLimiter(limiter: RateLimiter | null): void {
+  shared = limiter;
+}
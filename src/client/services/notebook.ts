@@ -2,9 +2,9 @@
  * Notebook Service - handles notebook CRUD operations
  */
 
-import type { Notebook, NotebookSummary, ChatConfig } from "../../types";
+import type { Notebook, NotebookSummary, ChatConfig, Source } from "../../types";
 import { RPC_IDS, CONSTANTS } from "../../config";
-import type { RpcTransport } from "../transport";
+import { createdSince, type RpcTransport } from "../transport";
 import {
   decodeNotebooks,
   decodeNotebook,
@@ -23,11 +23,20 @@ export class NotebookService {
 
   async create(title = ""): Promise<Notebook | null> {
     const params = [title, null, null, [2], [1, null, null, null, null, null, null, null, null, null, [1]]];
-    const result = await this.transport.call(RPC_IDS.CREATE_NOTEBOOK, params);
+    const startedAt = Date.now();
+    const result = await this.transport.call(RPC_IDS.CREATE_NOTEBOOK, params, {
+      // A notebook with this title created since the request means it went through
+      reconcile: async () => {
+        const created = (await this.list())
+          .filter((nb) => nb.title === title && createdSince(nb.createdAt, startedAt))
+          .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""))[0];
+        return created ? [title, null, created.id] : null;
+      },
+    });
     return decodeCreatedNotebook(result, title);
   }
 
-  async get(notebookId: string): Promise<{ title: string; sources: { id: string; title: string }[] } | null> {
+  async get(notebookId: string): Promise<{ title: string; sources: Source[] } | null> {
     const result = await this.transport.call(
       RPC_IDS.GET_NOTEBOOK,
       [notebookId, null, [2], null, 0],
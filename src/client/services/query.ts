@@ -2,19 +2,21 @@
  * Query Service - handles notebook querying with conversation support
  */
 
-import type { QueryResult, ConversationTurn } from "../../types";
+import type { QueryResult, ConversationRecord, ConversationSummary } from "../../types";
 import { Config } from "../../config";
 import type { RpcTransport } from "../transport";
-import { decodeQueryResponse, extractSourceIds } from "../codec";
-import { loadConversations, saveConversations } from "../conversations";
+import { QueryStreamDecoder, decodeNotebook, extractSourceIds, type QueryStreamCallbacks } from "../codec";
+import {
+  appendConversationTurn,
+  deleteConversation,
+  listConversations,
+  loadConversation,
+  renameConversation,
+} from "../conversations";
 import { AppError } from "../../errors";
 
 export class QueryService {
-  private conversationCache: Map<string, ConversationTurn[]>;
-
-  constructor(private transport: RpcTransport) {
-    this.conversationCache = loadConversations();
-  }
+  constructor(private transport: RpcTransport) {}
 
   /**
    * Query notebook sources
@@ -27,16 +29,18 @@ export class QueryService {
       conversationId?: string;
       timeout?: number;
       getNotebookRaw?: () => Promise<unknown>;
+      callbacks?: QueryStreamCallbacks;
     } = {}
   ): Promise<QueryResult> {
-    const { sourceIds, conversationId, timeout = Config.QUERY_TIMEOUT, getNotebookRaw } = options;
+    const { sourceIds, conversationId, timeout = Config.QUERY_TIMEOUT, getNotebookRaw, callbacks } = options;
 
     // Get source IDs if not provided
     let effectiveSourceIds = sourceIds || [];
+    let notebookRaw: unknown = null;
     if (effectiveSourceIds.length === 0 && getNotebookRaw) {
       try {
-        const notebook = await getNotebookRaw();
-        effectiveSourceIds = extractSourceIds(notebook);
+        notebookRaw = await getNotebookRaw();
+        effectiveSourceIds = extractSourceIds(notebookRaw);
       } catch {
         // Ignore error, will fail later if no sources
       }
@@ -48,7 +52,7 @@ export class QueryService {
 
     // Build conversation history if this is a follow-up
     const conversationHistory = conversationId
-      ? this.buildConversationHistory(conversationId)
+      ? await this.buildConversationHistory(conversationId, notebookId)
       : null;
 
     // Generate conversation ID if new conversation
@@ -70,31 +74,58 @@ export class QueryService {
       2,                         // [8] unknown (maybe mode?)
     ];
 
-    // Execute streaming query
-    const responseText = await this.transport.streamQuery(queryParams, notebookId, timeout);
-
-    // Parse response
-    const { answer, conversationId: newConversationId } = decodeQueryResponse(responseText);
+    // Execute streaming query, decoding frames as they arrive
+    let decoder = new QueryStreamDecoder(callbacks);
+    await this.transport.streamQuery(queryParams, {
+      timeout,
+      onChunk: (chunk) => decoder.push(chunk),
+      // A retried query starts over; drop what the failed attempt streamed
+      onRetry: () => { decoder = new QueryStreamDecoder(callbacks); },
+    });
+    const { answer, conversationId: serverConversationId, turnId, citations } = decoder.finish();
 
     if (!answer) {
       throw AppError.validation("NotebookLM returned no answer. Ensure your query is relevant to the selected sources.");
     }
 
     // Cache conversation turn
-    const convId = newConversationId || conversationId || crypto.randomUUID();
-    this.cacheConversationTurn(convId, queryText, answer);
+    // Prefer the server-issued conversation ID; keep local history under it
+    const convId = serverConversationId || effectiveConversationId;
+    try {
+      if (conversationId && convId !== conversationId) {
+        await renameConversation(conversationId, convId, notebookId);
+      }
+      await appendConversationTurn(convId, notebookId, { query: queryText, answer, sourceIds: effectiveSourceIds, turnId });
+    } catch {
+      // Persistence is not critical; the answer is still returned
+    }
+
+    // Resolve cited source titles from the notebook's source list
+    if (citations.length > 0 && getNotebookRaw) {
+      try {
+        notebookRaw ??= await getNotebookRaw();
+        const titles = new Map(decodeNotebook(notebookRaw)?.sources.map((s) => [s.id, s.title]));
+        for (const citation of citations) {
+          if (citation.sourceId) citation.sourceTitle = titles.get(citation.sourceId) ?? null;
+        }
+      } catch {
+        // Titles are best-effort; source IDs are still returned
+      }
+    }
 
     return {
       answer,
       conversationId: convId,
+      turnId,
+      citations,
     };
   }
 
   /**
    * Build conversation history for follow-up queries
    */
-  private buildConversationHistory(conversationId: string): unknown[] | null {
-    const turns = this.conversationCache.get(conversationId);
+  private async buildConversationHistory(conversationId: string, notebookId: string): Promise<unknown[] | null> {
+    const turns = (await loadConversation(conversationId, notebookId))?.turns;
     if (!turns?.length) return null;
 
     const history: unknown[] = [];
@@ -107,36 +138,33 @@ export class QueryService {
   }
 
   /**
-   * Cache and persist a conversation turn
+   * List saved conversations, most recently updated first
    */
-  private cacheConversationTurn(conversationId: string, query: string, answer: string): void {
-    if (!this.conversationCache.has(conversationId)) {
-      this.conversationCache.set(conversationId, []);
-    }
-
-    const turns = this.conversationCache.get(conversationId)!;
-    turns.push({
-      query,
-      answer,
-      turnNumber: turns.length + 1,
-    });
-
-    // Persist to disk
-    saveConversations(this.conversationCache);
+  async listConversations(notebookId?: string): Promise<ConversationSummary[]> {
+    return (await listConversations(notebookId))
+      .filter((record) => record.turns.length > 0)
+      .map((record) => ({
+        conversationId: record.id,
+        notebookId: record.notebookId,
+        turnCount: record.turns.length,
+        firstQuery: record.turns[0]!.query,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
   }
 
   /**
-   * Get conversation history
+   * Get a saved conversation
    */
-  getConversation(conversationId: string): ConversationTurn[] {
-    return this.conversationCache.get(conversationId) || [];
+  getConversation(conversationId: string): Promise<ConversationRecord | null> {
+    return loadConversation(conversationId);
   }
 
   /**
-   * Clear a conversation
+   * Clear a conversation; returns false if it was not found
    */
-  clearConversation(conversationId: string): void {
-    this.conversationCache.delete(conversationId);
-    saveConversations(this.conversationCache);
+  clearConversation(conversationId: string): Promise<boolean> {
+    return deleteConversation(conversationId);
   }
 }
@@ -2,10 +2,11 @@
  * Research Service - handles web research operations
  */
 
-import type { ResearchTask } from "../../types";
-import { RPC_IDS, CONSTANTS } from "../../config";
+import type { ResearchTask, DiscoveredSource, ResearchImportPolicy, ResearchImportPlan } from "../../types";
+import { Config, RPC_IDS, CONSTANTS } from "../../config";
 import type { RpcTransport } from "../transport";
 import { decodeResearchTask } from "../codec";
+import { AppError } from "../../errors";
 
 export class ResearchService {
   constructor(private transport: RpcTransport) {}
@@ -83,3 +84,164 @@ export class ResearchService {
     return 0;
   }
 }
+
+// ============================================================================
+// Import policy
+// ============================================================================
+
+/**
+ * Policy from NOTEBOOKLM_RESEARCH_* environment settings
+ */
+export function defaultImportPolicy(): ResearchImportPolicy {
+  return {
+    allowDomains: Config.RESEARCH_ALLOW_DOMAINS,
+    blockDomains: Config.RESEARCH_BLOCK_DOMAINS,
+    types: Config.RESEARCH_TYPES,
+    maxCount: Config.RESEARCH_MAX_IMPORT,
+    skipExisting: true,
+  };
+}
+
+/**
+ * Apply per-call import options to a configured policy. Types and domains
+ * can only narrow it: requested types are intersected with any configured
+ * list, blocked domains are added. includeExisting is the one widening
+ * option, re-importing URLs the notebook already has.
+ */
+export function narrowImportPolicy(
+  policy: ResearchImportPolicy,
+  options: {
+    types?: string[] | undefined;
+    blockDomains?: string[] | undefined;
+    maxCount?: number | undefined;
+    includeExisting?: boolean | undefined;
+  }
+): ResearchImportPolicy {
+  const narrowed = { ...policy, blockDomains: [...policy.blockDomains, ...(options.blockDomains ?? [])] };
+
+  if (options.types && options.types.length > 0) {
+    const requested = options.types;
+    narrowed.types = policy.types.length > 0 ? requested.filter((t) => policy.types.includes(t)) : requested;
+    // An empty list would mean "every type"
+    if (narrowed.types.length === 0) {
+      throw AppError.validation(`None of the requested types are allowed; configured types: ${policy.types.join(", ")}`);
+    }
+  }
+  if (options.maxCount !== undefined) {
+    narrowed.maxCount = Math.min(options.maxCount, policy.maxCount ?? Infinity);
+  }
+  if (options.includeExisting) narrowed.skipExisting = false;
+  return narrowed;
+}
+
+function hostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some((d) => {
+    const domain = d.toLowerCase().replace(/^www\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Normalize a URL for duplicate detection (case-insensitive host, no
+ * fragment, no trailing slash)
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = "";
+    return `${u.protocol}//${u.host.toLowerCase().replace(/^www\./, "")}${u.pathname.replace(/\/+$/, "")}${u.search}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Decide which discovered sources to import. Domain rules only apply to
+ * sources with a URL; existingUrls are the notebook's current source URLs.
+ */
+export function planResearchImport(
+  sources: DiscoveredSource[],
+  policy: ResearchImportPolicy,
+  existingUrls: string[] = []
+): ResearchImportPlan {
+  const seen = new Set(policy.skipExisting ? existingUrls.map(normalizeUrl) : []);
+  const plan: ResearchImportPlan = { accepted: [], skipped: [] };
+
+  for (const source of sources) {
+    const skip = (reason: string) =>
+      plan.skipped.push({ index: source.index, title: source.title, url: source.url, reason });
+
+    if (policy.types.length > 0 && !policy.types.includes(source.type)) {
+      skip(`type ${source.type} not allowed`);
+      continue;
+    }
+
+    if (source.url) {
+      const host = hostname(source.url);
+      if (host && matchesDomain(host, policy.blockDomains)) {
+        skip(`domain ${host} is blocked`);
+        continue;
+      }
+      if (policy.allowDomains.length > 0 && (!host || !matchesDomain(host, policy.allowDomains))) {
+        skip(`domain ${host ?? source.url} not in allowlist`);
+        continue;
+      }
+      const key = normalizeUrl(source.url);
+      if (seen.has(key)) {
+        skip("already in notebook");
+        continue;
+      }
+      seen.add(key);
+    }
+
+    if (policy.maxCount !== undefined && plan.accepted.length >= policy.maxCount) {
+      skip(`max count ${policy.maxCount} reached`);
+      continue;
+    }
+    plan.accepted.push(source);
+  }
+
+  return plan;
+}
+
+// ============================================================================
+// Report export
+// ============================================================================
+
+/**
+ * Title for a research report: its first Markdown heading
+ */
+export function researchReportTitle(task: ResearchTask): string {
+  const heading = task.report?.match(/^#{1,6}\s+(.+)$/m)?.[1]?.trim();
+  return heading || "Research Report";
+}
+
+/**
+ * Render a research report with the discovered sources as a reference list
+ */
+export function formatResearchReportMarkdown(task: ResearchTask): string {
+  const report = (task.report || "").trim();
+  const lines = /^#\s/.test(report) ? [report, ""] : [`# ${researchReportTitle(task)}`, "", report, ""];
+
+  const references = task.sources.filter((src) => src.type !== "deep_report");
+  if (references.length > 0) {
+    lines.push("## References", "");
+    for (const src of references) {
+      const title = src.title || src.url || "Untitled";
+      lines.push(`${src.index + 1}. ${src.url ? `[${title}](${src.url})` : title} (${src.type})`);
+    }
+    lines.push("");
+  }
+
+  const taskRef = task.taskId ? ` task \`${task.taskId}\`` : "";
+  lines.push("---", `NotebookLM research${taskRef} in notebook [${task.notebookId}](https://notebooklm.google.com/notebook/${task.notebookId})`);
+  return lines.join("\n");
+}
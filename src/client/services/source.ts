@@ -5,27 +5,76 @@
 import type { Source, SourceGuide, SourceContent } from "../../types";
 import { RPC_IDS } from "../../config";
 import { Config } from "../../config";
-import type { RpcTransport } from "../transport";
+import type { RpcTransport, Reconcile } from "../transport";
 import {
+  decodeNotebook,
   decodeSource,
   decodeSourceGuide,
   decodeSourceContent,
 } from "../codec";
+import { normalizeUrl } from "./research";
 
 export class SourceService {
   constructor(private transport: RpcTransport) {}
 
-  async addUrl(notebookId: string, url: string): Promise<Source | null> {
+  private async listSources(notebookId: string): Promise<Source[]> {
+    const result = await this.transport.call(
+      RPC_IDS.GET_NOTEBOOK,
+      [notebookId, null, [2], null, 0],
+      { path: `/notebook/${notebookId}` }
+    );
+    return decodeNotebook(result)?.sources ?? [];
+  }
+
+  /**
+   * Reconciler for an ADD_SOURCE that may have gone through: re-list the
+   * notebook's sources and answer in ADD_SOURCE's shape with the matches.
+   * Sources listed before the request (`existing`) never match, so an older
+   * source with the same title or URL is not mistaken for the new one.
+   */
+  private findAdded(
+    notebookId: string,
+    existing: ReadonlySet<string>,
+    matches: (source: Source) => boolean
+  ): Reconcile {
+    return async () => {
+      const found = (await this.listSources(notebookId)).filter((s) => !existing.has(s.id) && matches(s));
+      return found.length > 0 ? found.map((s) => [[s.id], s.title]) : null;
+    };
+  }
+
+  private findAddedUrls(notebookId: string, existing: ReadonlySet<string>, urls: string[]): Reconcile {
+    const wanted = new Set(urls.map(normalizeUrl));
+    return this.findAdded(notebookId, existing, (s) => s.url !== undefined && wanted.has(normalizeUrl(s.url)));
+  }
+
+  /**
+   * Ids of the notebook's sources before an add, for findAdded: `known`
+   * when the caller has a current listing, else fetched. Best-effort; null
+   * sends the add without a reconciler, so a failure is not resent.
+   */
+  private async sourceIds(notebookId: string, known?: ReadonlySet<string>): Promise<ReadonlySet<string> | null> {
+    if (known) return known;
+    try {
+      return new Set((await this.listSources(notebookId)).map((s) => s.id));
+    } catch {
+      return null;
+    }
+  }
+
+  async addUrl(notebookId: string, url: string, known?: ReadonlySet<string>): Promise<Source | null> {
     // URL source format: [null,null,["url"],null,null,null,null,null,null,null,1]
     const urlSourceData = [null, null, [url], null, null, null, null, null, null, null, 1];
     const options = [1, null, null, null, null, null, null, null, null, null, [1]];
     const params = [[urlSourceData], notebookId, [2], options];
+    const existing = await this.sourceIds(notebookId, known);
     const result = await this.transport.call(
       RPC_IDS.ADD_SOURCE,
       params,
       { 
         path: `/notebook/${notebookId}`,
         timeout: Config.SOURCE_ADD_TIMEOUT,
+        ...(existing && { reconcile: this.findAddedUrls(notebookId, existing, [url]) }),
       }
     );
     
@@ -38,10 +87,10 @@ export class SourceService {
     return null;
   }
 
-  async addUrls(notebookId: string, urls: string[]): Promise<Source[]> {
+  async addUrls(notebookId: string, urls: string[], known?: ReadonlySet<string>): Promise<Source[]> {
     if (urls.length === 0) return [];
     if (urls.length === 1) {
-      const source = await this.addUrl(notebookId, urls[0]!);
+      const source = await this.addUrl(notebookId, urls[0]!, known);
       return source ? [source] : [];
     }
     
@@ -49,12 +98,14 @@ export class SourceService {
     const urlParams = urls.map(url => [null, null, [url], null, null, null, null, null, null, null, 1]);
     const options = [1, null, null, null, null, null, null, null, null, null, [1]];
     const params = [urlParams, notebookId, [2], options];
+    const existing = await this.sourceIds(notebookId, known);
     const result = await this.transport.call(
       RPC_IDS.ADD_SOURCE,
       params,
       { 
         path: `/notebook/${notebookId}`,
         timeout: Config.SOURCE_ADD_TIMEOUT,
+        ...(existing && { reconcile: this.findAddedUrls(notebookId, existing, urls) }),
       }
     );
     
@@ -74,17 +125,24 @@ export class SourceService {
     return sources;
   }
 
-  async addText(notebookId: string, text: string, title = "Pasted Text"): Promise<Source | null> {
+  async addText(
+    notebookId: string,
+    text: string,
+    title = "Pasted Text",
+    known?: ReadonlySet<string>
+  ): Promise<Source | null> {
     // Text source_data: [null,["title","text"],null,2,null,null,null,null,null,null,1]
     const textSourceData = [null, [title, text], null, 2, null, null, null, null, null, null, 1];
     const options = [1, null, null, null, null, null, null, null, null, null, [1]];
     const params = [[textSourceData], notebookId, [2], options];
+    const existing = await this.sourceIds(notebookId, known);
     const result = await this.transport.call(
       RPC_IDS.ADD_SOURCE,
       params,
       { 
         path: `/notebook/${notebookId}`,
         timeout: Config.SOURCE_ADD_TIMEOUT,
+        ...(existing && { reconcile: this.findAdded(notebookId, existing, (s) => s.title === title) }),
       }
     );
     
@@ -100,18 +158,21 @@ export class SourceService {
     notebookId: string,
     documentId: string,
     title: string,
-    mimeType: string
+    mimeType: string,
+    known?: ReadonlySet<string>
   ): Promise<Source | null> {
     // Drive source_data: [[docId, mimeType, 1, title], null, null, null, null, null, null, null, null, null, 1]
     const driveSourceData = [[documentId, mimeType, 1, title], null, null, null, null, null, null, null, null, null, 1];
     const options = [1, null, null, null, null, null, null, null, null, null, [1]];
     const params = [[driveSourceData], notebookId, [2], options];
+    const existing = await this.sourceIds(notebookId, known);
     const result = await this.transport.call(
       RPC_IDS.ADD_SOURCE,
       params,
       { 
         path: `/notebook/${notebookId}`,
         timeout: Config.SOURCE_ADD_TIMEOUT,
+        ...(existing && { reconcile: this.findAdded(notebookId, existing, (s) => s.title === title) }),
       }
     );
     
@@ -128,6 +189,16 @@ export class SourceService {
     return decodeSourceGuide(result);
   }
 
+  /**
+   * Fetch guides for many sources in batched requests; failed lookups are null
+   */
+  async getGuides(sourceIds: string[]): Promise<(SourceGuide | null)[]> {
+    const results = await this.transport.callMany(
+      sourceIds.map((sourceId) => ({ rpcId: RPC_IDS.GET_SOURCE_GUIDE, params: [[[[sourceId]]]] }))
+    );
+    return results.map((r) => (r.ok ? decodeSourceGuide(r.value) : null));
+  }
+
   async getContent(sourceId: string): Promise<SourceContent> {
     const params = [[sourceId], [2], [2]];
     const result = await this.transport.call(RPC_IDS.GET_SOURCE, params);
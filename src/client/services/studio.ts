@@ -2,47 +2,262 @@
  * Studio Service - handles audio/video/infographic generation
  */
 
-import type { StudioArtifact, StudioType } from "../../types";
+import type {
+  StudioArtifact,
+  StudioDownload,
+  MindMap,
+  StudioType,
+  StudioCreateType,
+  StudioOptionsMap,
+  AudioOptions,
+  VideoOptions,
+  ReportOptions,
+  FlashcardOptions,
+  InfographicOptions,
+  SlideDeckOptions,
+  DataTableOptions,
+  ReportFormat,
+} from "../../types";
 import { RPC_IDS, CONSTANTS } from "../../config";
-import type { RpcTransport } from "../transport";
-import { decodeStudioArtifacts } from "../codec";
+import { createdSince, type RpcTransport } from "../transport";
+import { decodeStudioArtifacts, decodeMindMap, decodeMindMaps } from "../codec";
 import { AppError } from "../../errors";
 
+const DEFAULT_LANGUAGE = "en";
+
+const AUDIO_FORMATS: Record<string, number> = {
+  deep_dive: CONSTANTS.AUDIO_FORMAT_DEEP_DIVE,
+  brief: CONSTANTS.AUDIO_FORMAT_BRIEF,
+  critique: CONSTANTS.AUDIO_FORMAT_CRITIQUE,
+  debate: CONSTANTS.AUDIO_FORMAT_DEBATE,
+};
+
+const AUDIO_LENGTHS: Record<string, number> = {
+  short: CONSTANTS.AUDIO_LENGTH_SHORT,
+  default: CONSTANTS.AUDIO_LENGTH_DEFAULT,
+  long: CONSTANTS.AUDIO_LENGTH_LONG,
+};
+
+const VIDEO_FORMATS: Record<string, number> = {
+  explainer: CONSTANTS.VIDEO_FORMAT_EXPLAINER,
+  brief: CONSTANTS.VIDEO_FORMAT_BRIEF,
+};
+
+const VIDEO_STYLES: Record<string, number> = {
+  auto_select: CONSTANTS.VIDEO_STYLE_AUTO_SELECT,
+  classic: CONSTANTS.VIDEO_STYLE_CLASSIC,
+  whiteboard: CONSTANTS.VIDEO_STYLE_WHITEBOARD,
+  kawaii: CONSTANTS.VIDEO_STYLE_KAWAII,
+  anime: CONSTANTS.VIDEO_STYLE_ANIME,
+  watercolor: CONSTANTS.VIDEO_STYLE_WATERCOLOR,
+  retro_print: CONSTANTS.VIDEO_STYLE_RETRO_PRINT,
+  heritage: CONSTANTS.VIDEO_STYLE_HERITAGE,
+  paper_craft: CONSTANTS.VIDEO_STYLE_PAPER_CRAFT,
+};
+
+const INFOGRAPHIC_ORIENTATIONS: Record<string, number> = {
+  landscape: CONSTANTS.INFOGRAPHIC_ORIENTATION_LANDSCAPE,
+  portrait: CONSTANTS.INFOGRAPHIC_ORIENTATION_PORTRAIT,
+  square: CONSTANTS.INFOGRAPHIC_ORIENTATION_SQUARE,
+};
+
+const INFOGRAPHIC_DETAILS: Record<string, number> = {
+  concise: CONSTANTS.INFOGRAPHIC_DETAIL_CONCISE,
+  standard: CONSTANTS.INFOGRAPHIC_DETAIL_STANDARD,
+  detailed: CONSTANTS.INFOGRAPHIC_DETAIL_DETAILED,
+};
+
+const SLIDE_DECK_FORMATS: Record<string, number> = {
+  detailed_deck: CONSTANTS.SLIDE_DECK_FORMAT_DETAILED,
+  presenter_slides: CONSTANTS.SLIDE_DECK_FORMAT_PRESENTER,
+};
+
+const SLIDE_DECK_LENGTHS: Record<string, number> = {
+  short: CONSTANTS.SLIDE_DECK_LENGTH_SHORT,
+  default: CONSTANTS.SLIDE_DECK_LENGTH_DEFAULT,
+};
+
+const FLASHCARD_DIFFICULTIES: Record<string, number> = {
+  easy: CONSTANTS.FLASHCARD_DIFFICULTY_EASY,
+  medium: CONSTANTS.FLASHCARD_DIFFICULTY_MEDIUM,
+  hard: CONSTANTS.FLASHCARD_DIFFICULTY_HARD,
+};
+
+// Reports are requested by title + description rather than a format code
+const REPORT_DESCRIPTIONS: Record<Exclude<ReportFormat, "Create Your Own">, string> = {
+  "Briefing Doc": "Key insights and important quotes",
+  "Study Guide": "Short-answer quiz, suggested essay questions, and glossary of key terms",
+  "Blog Post": "Insightful takeaways in readable article format",
+};
+
 export class StudioService {
   constructor(private transport: RpcTransport) {}
 
   /**
    * Create studio content (audio, video, infographic, etc.)
+   * Options are encoded into the type-specific slot of the CREATE_STUDIO payload
    */
-  async create(
+  async create<T extends StudioCreateType>(
     notebookId: string,
-    type: StudioType,
-    options: Record<string, unknown> = {},
-    sourceIds?: string[]
+    type: T,
+    options: StudioOptionsMap[T],
+    sourceIds: string[]
   ): Promise<string> {
-    const typeCode = this.getTypeCode(type);
-    const sourceFilter = sourceIds?.map((id) => [id]) || null;
+    if (sourceIds.length === 0) {
+      throw AppError.validation("No sources found. Please add sources to the notebook or specify source_ids.");
+    }
+
+    const sourcesNested = sourceIds.map((id) => [[id]]);
+    const sourcesSimple = sourceIds.map((id) => [id]);
+    const { slot, value } = this.encodeOptions(type, options, sourcesSimple);
+
+    // Content: [null, null, typeCode, sources, ...nulls, options at type-specific slot]
+    const content: unknown[] = [null, null, this.getTypeCode(type), sourcesNested];
+    while (content.length < slot) content.push(null);
+    content[slot] = value;
 
-    const params = [notebookId, typeCode, options, sourceFilter, [2]];
+    const params = [[2], notebookId, content];
+    const startedAt = Date.now();
     const result = await this.transport.call(
       RPC_IDS.CREATE_STUDIO,
       params,
-      { path: `/notebook/${notebookId}` }
+      {
+        path: `/notebook/${notebookId}`,
+        // An artifact of this type created since the request means it went through
+        reconcile: async () => {
+          const created = (await this.pollStatus(notebookId))
+            .filter((a) => a.type === type && createdSince(a.createdAt, startedAt))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+          return created ? [[created.id]] : null;
+        },
+      }
     );
 
-    // Return artifact ID
-    if (result && Array.isArray(result) && result[0]) {
-      return result[0];
+    // Return artifact ID: [[artifactId, ...]]
+    if (result && Array.isArray(result)) {
+      const artifact = result[0];
+      if (Array.isArray(artifact) && typeof artifact[0] === "string") return artifact[0];
+      if (typeof artifact === "string") return artifact;
     }
 
     throw AppError.validation("Failed to create studio content");
   }
 
+  /**
+   * Encode per-type options and return the content slot they belong in
+   */
+  private encodeOptions<T extends StudioCreateType>(
+    type: T,
+    options: StudioOptionsMap[T],
+    sourcesSimple: string[][]
+  ): { slot: number; value: unknown[] } {
+    switch (type) {
+      case "audio": {
+        const o = options as AudioOptions;
+        return {
+          slot: 6,
+          value: [null, [
+            o.focusPrompt ?? "",
+            this.code(AUDIO_LENGTHS, o.length, CONSTANTS.AUDIO_LENGTH_DEFAULT),
+            null,
+            sourcesSimple,
+            o.language ?? DEFAULT_LANGUAGE,
+            null,
+            this.code(AUDIO_FORMATS, o.format, CONSTANTS.AUDIO_FORMAT_DEEP_DIVE),
+          ]],
+        };
+      }
+      case "video": {
+        const o = options as VideoOptions;
+        return {
+          slot: 8,
+          value: [null, null, [
+            sourcesSimple,
+            o.language ?? DEFAULT_LANGUAGE,
+            o.focusPrompt ?? "",
+            null,
+            this.code(VIDEO_FORMATS, o.format, CONSTANTS.VIDEO_FORMAT_EXPLAINER),
+            this.code(VIDEO_STYLES, o.style, CONSTANTS.VIDEO_STYLE_AUTO_SELECT),
+          ]],
+        };
+      }
+      case "report": {
+        const o = options as ReportOptions;
+        const format = o.format ?? "Briefing Doc";
+        const isCustom = format === "Create Your Own";
+        return {
+          slot: 7,
+          value: [null, [
+            isCustom ? "Custom Report" : format,
+            isCustom ? (o.customPrompt || "Custom format") : REPORT_DESCRIPTIONS[format],
+            null,
+            sourcesSimple,
+            o.language ?? DEFAULT_LANGUAGE,
+            o.customPrompt ?? "",
+            null,
+            true,
+          ]],
+        };
+      }
+      case "flashcards":
+      case "quiz": {
+        const o = options as FlashcardOptions;
+        const difficulty = this.code(FLASHCARD_DIFFICULTIES, o.difficulty, CONSTANTS.FLASHCARD_DIFFICULTY_MEDIUM);
+        return {
+          slot: 9,
+          value: [null, [
+            type === "quiz" ? 2 : 1,
+            null, null, null, null, null,
+            [difficulty, CONSTANTS.FLASHCARD_COUNT_DEFAULT],
+          ]],
+        };
+      }
+      case "infographic": {
+        const o = options as InfographicOptions;
+        return {
+          slot: 14,
+          value: [[
+            o.focusPrompt || null,
+            o.language ?? DEFAULT_LANGUAGE,
+            null,
+            this.code(INFOGRAPHIC_ORIENTATIONS, o.orientation, CONSTANTS.INFOGRAPHIC_ORIENTATION_LANDSCAPE),
+            this.code(INFOGRAPHIC_DETAILS, o.detail, CONSTANTS.INFOGRAPHIC_DETAIL_STANDARD),
+          ]],
+        };
+      }
+      case "slide_deck": {
+        const o = options as SlideDeckOptions;
+        return {
+          slot: 16,
+          value: [[
+            o.focusPrompt || null,
+            o.language ?? DEFAULT_LANGUAGE,
+            this.code(SLIDE_DECK_FORMATS, o.format, CONSTANTS.SLIDE_DECK_FORMAT_DETAILED),
+            this.code(SLIDE_DECK_LENGTHS, o.length, CONSTANTS.SLIDE_DECK_LENGTH_DEFAULT),
+          ]],
+        };
+      }
+      case "data_table": {
+        const o = options as DataTableOptions;
+        return {
+          slot: 18,
+          value: [null, [o.description || "Key facts and figures from the sources", o.language ?? DEFAULT_LANGUAGE]],
+        };
+      }
+    }
+    throw AppError.validation(`Unsupported studio type: ${type}`);
+  }
+
+  private code(codes: Record<string, number>, value: string | undefined, fallback: number): number {
+    return (value && codes[value]) || fallback;
+  }
+
   /**
    * Poll studio artifact statuses
    */
   async pollStatus(notebookId: string): Promise<StudioArtifact[]> {
-    const params = [notebookId, [2]];
+    // Suggested (not yet requested) artifacts are filtered out server-side
+    const params = [[2], notebookId, 'NOT artifact.status = "ARTIFACT_STATUS_SUGGESTED"'];
     const result = await this.transport.call(
       RPC_IDS.POLL_STUDIO,
       params,
@@ -56,7 +271,7 @@ export class StudioService {
    * Delete a studio artifact
    */
   async delete(notebookId: string, artifactId: string): Promise<boolean> {
-    const params = [notebookId, artifactId, [2]];
+    const params = [[2], artifactId];
     const result = await this.transport.call(
       RPC_IDS.DELETE_STUDIO,
       params,
@@ -66,39 +281,87 @@ export class StudioService {
   }
 
   /**
-   * Create mind map
+   * Fetch a ready artifact's content: inline text for reports and data
+   * tables, the media file (with session cookies) for everything else
+   */
+  async download(notebookId: string, artifactId: string): Promise<StudioDownload> {
+    const artifacts = await this.pollStatus(notebookId);
+    const artifact = artifacts.find((a) => a.id === artifactId);
+    if (!artifact) throw AppError.notFound(`Studio artifact ${artifactId}`);
+    if (artifact.status !== "ready") {
+      throw AppError.validation(`Studio artifact ${artifactId} is ${artifact.status}, not ready`);
+    }
+
+    if (artifact.type === "report" && artifact.content) {
+      return { artifact, data: artifact.content, extension: "md" };
+    }
+    if (artifact.type === "data_table" && artifact.rows) {
+      return { artifact, data: formatCsv(artifact.rows), extension: "csv" };
+    }
+    if (!artifact.url) {
+      throw AppError.validation(`Studio artifact ${artifactId} (${artifact.type}) has no downloadable content`);
+    }
+
+    const { data, contentType } = await this.transport.download(artifact.url);
+    return { artifact, data, extension: extensionFor(artifact.type, contentType) };
+  }
+
+  /**
+   * Generate a mind map from the given sources and save it to the notebook
    */
   async createMindMap(
     notebookId: string,
-    sourceIds?: string[],
-    title?: string
-  ): Promise<{ id: string; content: unknown }> {
-    const sourceFilter = sourceIds?.map((id) => [id]) || null;
-
-    // Generate mind map
-    const generateParams = [notebookId, sourceFilter, [2]];
-    const generated = await this.transport.call(
-      RPC_IDS.GENERATE_MIND_MAP,
-      generateParams,
-      { path: `/notebook/${notebookId}` }
-    );
+    sourceIds: string[],
+    title = "Mind Map"
+  ): Promise<MindMap> {
+    const path = `/notebook/${notebookId}`;
+    const generateParams = [
+      sourceIds.map((id) => [[id]]),
+      null, null, null, null,
+      ["interactive_mindmap", [["[CONTEXT]", ""]], ""],
+      null,
+      [2, null, [1]],
+    ];
+    const generated = await this.transport.call(RPC_IDS.GENERATE_MIND_MAP, generateParams, { path });
 
-    if (!generated) {
+    const tree = Array.isArray(generated) && Array.isArray(generated[0]) ? generated[0][0] : undefined;
+    if (typeof tree !== "string") {
       throw AppError.validation("Failed to generate mind map");
     }
 
-    // Save mind map
-    const saveParams = [notebookId, title || "Mind Map", generated, [2]];
-    const saved = await this.transport.call(
-      RPC_IDS.SAVE_MIND_MAP,
-      saveParams,
+    const saveParams = [notebookId, tree, [2, null, null, 5, sourceIds.map((id) => [id])], null, title];
+    const saved = await this.transport.call(RPC_IDS.SAVE_MIND_MAP, saveParams, { path });
+
+    const mindMap = decodeMindMap(Array.isArray(saved) ? saved[0] : undefined);
+    if (!mindMap) {
+      throw AppError.validation("Failed to save mind map");
+    }
+    return mindMap;
+  }
+
+  /**
+   * List saved mind maps
+   */
+  async listMindMaps(notebookId: string): Promise<MindMap[]> {
+    const result = await this.transport.call(
+      RPC_IDS.LIST_MIND_MAPS,
+      [notebookId],
       { path: `/notebook/${notebookId}` }
     );
+    return decodeMindMaps(result);
+  }
 
-    return {
-      id: Array.isArray(saved) && typeof saved[0] === "string" ? saved[0] : "",
-      content: generated,
-    };
+  /**
+   * Delete a saved mind map
+   */
+  async deleteMindMap(notebookId: string, mindMapId: string): Promise<boolean> {
+    const params = [notebookId, null, [mindMapId], [2]];
+    const result = await this.transport.call(
+      RPC_IDS.DELETE_MIND_MAP,
+      params,
+      { path: `/notebook/${notebookId}` }
+    );
+    return result !== null;
   }
 
   private getTypeCode(type: StudioType): number {
@@ -115,3 +378,30 @@ export class StudioService {
     return codes[type] || 1;
   }
 }
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/mpeg": "mp3",
+  "video/mp4": "mp4",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "application/pdf": "pdf",
+};
+
+const DEFAULT_EXTENSIONS: Partial<Record<StudioType, string>> = {
+  audio: "m4a",
+  video: "mp4",
+  infographic: "png",
+  slide_deck: "pdf",
+};
+
+function extensionFor(type: StudioType, contentType: string): string {
+  const mime = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return MEDIA_EXTENSIONS[mime] ?? DEFAULT_EXTENSIONS[type] ?? "bin";
+}
+
+function formatCsv(rows: string[][]): string {
+  const escape = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return rows.map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
@@ -3,18 +3,26 @@
  * Handles HTTP communication with Google's batchexecute endpoint
  */
 
-import { Config } from "../config";
-import { AppError, isAuthError, wrapError } from "../errors";
-import { buildRpcBody, buildQueryBody, stripXssiPrefix, strictEncode } from "./encoding";
+import { Config, RPC_IDS } from "../config";
+import { AppError, isAuthError } from "../errors";
+import { buildRpcBody, buildBatchRpcBody, buildQueryBody, parseChunkedResponse } from "./encoding";
 import { cookiesToHeader } from "../auth/tokens";
+import { getRateLimiter, type RateLimiter } from "./rate-limiter";
+import { defaultInterceptors, runInterceptors, type Interceptor } from "./interceptors";
 
 export interface TransportOptions {
   cookies: Record<string, string>;
   csrfToken: string;
   sessionId: string;
+  // Backend label from the NotebookLM page; Config.BL when unknown
+  backendLabel?: string | undefined;
   onAuthRefresh?: () => Promise<boolean>;
   onDiskReload?: () => Promise<boolean>;
   onCDPRefresh?: () => Promise<boolean>;
+  // Defaults to the limiter shared by all transports
+  rateLimiter?: RateLimiter;
+  // Appended after the built-in interceptors
+  interceptors?: Interceptor[];
 }
 
 export interface RpcResponse {
@@ -22,6 +30,88 @@ export interface RpcResponse {
   text: string;
 }
 
+export interface RpcCall {
+  rpcId: string;
+  params: unknown;
+}
+
+export type RpcResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: AppError };
+
+/**
+ * Look up whether an unsafe RPC already took effect after a failure that may
+ * have reached the server. Returns a result in the RPC's own response shape
+ * (so callers decode it as usual), or null if it did not take effect.
+ */
+export type Reconcile = () => Promise<unknown>;
+
+// RPCs that create something: resending one that already went through
+// duplicates sources, notebooks or studio content
+const UNSAFE_RPCS: ReadonlySet<string> = new Set([
+  RPC_IDS.CREATE_NOTEBOOK,
+  RPC_IDS.ADD_SOURCE,
+  RPC_IDS.CREATE_STUDIO,
+  RPC_IDS.START_FAST_RESEARCH,
+  RPC_IDS.START_DEEP_RESEARCH,
+  RPC_IDS.IMPORT_RESEARCH,
+  RPC_IDS.SAVE_MIND_MAP,
+]);
+
+/**
+ * Whether an RPC can be resent blindly after a failure
+ */
+export function isIdempotent(rpcId: string): boolean {
+  return !UNSAFE_RPCS.has(rpcId);
+}
+
+// Server and local clocks disagree; items created this long before a request still match it
+const CLOCK_SKEW_MS = 60000;
+
+/**
+ * Whether a decoded creation time (ISO string) is no earlier than `since`,
+ * for reconcilers matching items a request may have created
+ */
+export function createdSince(createdAt: string | null | undefined, since: number): boolean {
+  if (!createdAt) return false;
+  const time = Date.parse(createdAt);
+  return !Number.isNaN(time) && time >= since - CLOCK_SKEW_MS;
+}
+
+// Redirect hops a media download may take, each checked with isTrustedMediaUrl
+const MAX_DOWNLOAD_REDIRECTS = 5;
+
+/**
+ * Whether a URL may receive the session cookies: https on a Google host,
+ * or the configured NotebookLM origin
+ */
+function isTrustedMediaUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.origin === new URL(Config.BASE_URL).origin) return true;
+  const host = parsed.hostname.toLowerCase();
+  return parsed.protocol === "https:" && (
+    host === "google.com" ||
+    host.endsWith(".google.com") ||
+    host.endsWith(".googleusercontent.com")
+  );
+}
+
+interface QueuedCall extends RpcCall {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+function unwrapResult(result: RpcResult | undefined): unknown {
+  if (!result) return null;
+  if (!result.ok) throw result.error;
+  return result.value;
+}
+
 /**
  * RPC Transport - handles low-level HTTP communication
  */
@@ -29,21 +119,37 @@ export class RpcTransport {
   private cookies: Record<string, string>;
   private csrfToken: string;
   private sessionId: string;
-  private onAuthRefresh?: (() => Promise<boolean>) | undefined;
-  private onDiskReload?: (() => Promise<boolean>) | undefined;
-  private onCDPRefresh?: (() => Promise<boolean>) | undefined;
+  private backendLabel: string | undefined;
   private reqidCounter: number;
-  private lastRequestTime: number = 0;
-  private static readonly MIN_REQUEST_INTERVAL = 500; // Rate limit guard: 500ms between requests
+  private interceptors: Interceptor[];
+  // Calls waiting to be micro-batched, per source path
+  private queues = new Map<string, { calls: QueuedCall[]; timeout: number; timer: ReturnType<typeof setTimeout> }>();
 
   constructor(options: TransportOptions) {
     this.cookies = options.cookies;
     this.csrfToken = options.csrfToken;
     this.sessionId = options.sessionId;
-    this.onAuthRefresh = options.onAuthRefresh;
-    this.onDiskReload = options.onDiskReload;
-    this.onCDPRefresh = options.onCDPRefresh;
+    this.backendLabel = options.backendLabel;
     this.reqidCounter = Math.floor(Math.random() * 900000) + 100000;
+    this.interceptors = [
+      ...defaultInterceptors(
+        options.rateLimiter ?? getRateLimiter(),
+        () => ({ sessionId: this.sessionId, bl: this.backendLabel || Config.BL }),
+        {
+          onAuthRefresh: options.onAuthRefresh,
+          onDiskReload: options.onDiskReload,
+          onCDPRefresh: options.onCDPRefresh,
+        }
+      ),
+      ...(options.interceptors ?? []),
+    ];
+  }
+
+  /**
+   * Add an interceptor to the end of the chain (logging, headers, fault injection)
+   */
+  use(interceptor: Interceptor): void {
+    this.interceptors.push(interceptor);
   }
 
   /**
@@ -57,12 +163,15 @@ export class RpcTransport {
   }
 
   /**
-   * Update all auth tokens (cookies + csrf + session)
+   * Update all auth tokens (cookies + csrf + session, and the backend label if known)
    */
-  updateFullAuth(cookies: Record<string, string>, csrfToken: string, sessionId: string): void {
+  updateFullAuth(cookies: Record<string, string>, csrfToken: string, sessionId: string, backendLabel?: string): void {
     this.cookies = cookies;
     this.csrfToken = csrfToken;
     this.sessionId = sessionId;
+    if (backendLabel) {
+      this.backendLabel = backendLabel;
+    }
   }
 
   /**
@@ -80,105 +189,70 @@ export class RpcTransport {
   }
 
   /**
-   * Build batchexecute URL
+   * Build batchexecute URL (session params are added by an interceptor)
    */
-  private buildUrl(rpcId: string, sourcePath = "/"): string {
-    const params = new URLSearchParams({
-      rpcids: rpcId,
-      "source-path": sourcePath,
-      bl: Config.BL,
-      hl: "en",
-      rt: "c",
-    });
-
-    if (this.sessionId) {
-      params.set("f.sid", this.sessionId);
-    }
-
-    return `${Config.BATCHEXECUTE_URL}?${params.toString()}`;
+  private buildUrl(rpcId: string, sourcePath = "/"): URL {
+    const url = new URL(Config.BATCHEXECUTE_URL);
+    url.searchParams.set("rpcids", rpcId);
+    url.searchParams.set("source-path", sourcePath);
+    return url;
   }
 
   /**
-   * Parse batchexecute response
+   * Decode one wrb.fr envelope into its result or RPC error
    */
-  private parseResponse(responseText: string): unknown[] {
-    const text = stripXssiPrefix(responseText);
-    const lines = text.trim().split("\n");
-    const results: unknown[] = [];
-
-    let i = 0;
-    while (i < lines.length) {
-      const line = lines[i]?.trim() ?? '';
-      if (!line) {
-        i++;
-        continue;
+  private decodeEnvelope(item: unknown[]): RpcResult {
+    // Check for RPC error
+    if (item.length > 6 && Array.isArray(item[5])) {
+      const errorCode = item[5].find((c: unknown) => typeof c === "number");
+      if (errorCode) {
+        return { ok: false, error: AppError.rpcError(errorCode) };
       }
+    }
 
-      const byteCount = parseInt(line, 10);
-      if (!isNaN(byteCount)) {
-        i++;
-        if (i < lines.length) {
-          try {
-            results.push(JSON.parse(lines[i] ?? ''));
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-        i++;
-      } else {
-        try {
-          results.push(JSON.parse(line));
-        } catch {
-          // Skip
-        }
-        i++;
+    const resultStr = item[2];
+    if (typeof resultStr === "string") {
+      try {
+        return { ok: true, value: JSON.parse(resultStr) };
+      } catch {
+        return { ok: true, value: resultStr };
       }
     }
-
-    return results;
+    return { ok: true, value: resultStr };
   }
 
   /**
-   * Extract RPC result from parsed response
+   * Match wrb.fr envelopes to calls: by the "1", "2", ... tag of batched
+   * envelopes, or by rpc id for a single "generic" call.
+   * Calls without an envelope resolve to null.
    */
-  private extractResult(parsed: unknown[], rpcId: string): unknown {
+  private extractResults(parsed: unknown[], calls: RpcCall[]): RpcResult[] {
+    const results: (RpcResult | undefined)[] = new Array(calls.length);
+
     for (const chunk of parsed) {
       if (!Array.isArray(chunk)) continue;
 
       for (const item of chunk) {
-        if (!Array.isArray(item) || item.length < 3) continue;
-
-        if (item[0] === "wrb.fr" && item[1] === rpcId) {
-          // Check for RPC error
-          if (
-            item.length > 6 &&
-            item[6] === "generic" &&
-            Array.isArray(item[5])
-          ) {
-            const errorCode = item[5].find((c: unknown) => typeof c === "number");
-            if (errorCode) {
-              throw AppError.rpcError(errorCode);
-            }
-          }
+        if (!Array.isArray(item) || item.length < 3 || item[0] !== "wrb.fr") continue;
 
-          const resultStr = item[2];
-          if (typeof resultStr === "string") {
-            try {
-              return JSON.parse(resultStr);
-            } catch {
-              return resultStr;
-            }
-          }
-          return resultStr;
-        }
+        const tag = item[6];
+        const index = typeof tag === "string" && /^\d+$/.test(tag)
+          ? Number(tag) - 1
+          : calls.findIndex((c, i) => c.rpcId === item[1] && !results[i]);
+        if (calls[index]?.rpcId !== item[1]) continue;
+
+        results[index] = this.decodeEnvelope(item);
       }
     }
 
-    return null;
+    return calls.map((_, i) => results[i] ?? { ok: true, value: null });
   }
 
   /**
-   * Execute RPC call with retry and auth refresh
+   * Execute RPC call with retry and auth refresh.
+   * Concurrent calls for the same source path are micro-batched into one
+   * request unless batch is false. Unsafe RPCs are always sent alone and are
+   * only resent after a possibly-applied failure if `reconcile` finds nothing.
    */
   async call(
     rpcId: string,
@@ -186,184 +260,257 @@ export class RpcTransport {
     options: {
       path?: string;
       timeout?: number;
+      batch?: boolean;
+      reconcile?: Reconcile;
     } = {}
   ): Promise<unknown> {
+    const { path = "/", timeout = Config.DEFAULT_TIMEOUT, batch = true, reconcile } = options;
+
+    if (!batch || !isIdempotent(rpcId)) {
+      const [result] = await this.execute([{ rpcId, params }], path, timeout, reconcile);
+      return unwrapResult(result);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.enqueue({ rpcId, params, resolve, reject }, path, timeout);
+    });
+  }
+
+  /**
+   * Execute several RPCs in as few batchexecute requests as possible.
+   * Results come back in call order; one failing RPC does not fail the others.
+   */
+  async callMany(
+    calls: RpcCall[],
+    options: {
+      path?: string;
+      timeout?: number;
+    } = {}
+  ): Promise<RpcResult[]> {
     const { path = "/", timeout = Config.DEFAULT_TIMEOUT } = options;
+    const results: RpcResult[] = [];
 
-    let authRetried = false;
-    let diskReloaded = false;
-    let cdpRefreshed = false;
-    const maxRetries = 3;
+    for (let i = 0; i < calls.length; i += Config.BATCH_MAX_CALLS) {
+      results.push(...await this.execute(calls.slice(i, i + Config.BATCH_MAX_CALLS), path, timeout));
+    }
+    return results;
+  }
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        // Rate limit guard: ensure minimum interval between requests
-        const now = Date.now();
-        const elapsed = now - this.lastRequestTime;
-        if (elapsed < RpcTransport.MIN_REQUEST_INTERVAL) {
-          await Bun.sleep(RpcTransport.MIN_REQUEST_INTERVAL - elapsed);
-        }
-        this.lastRequestTime = Date.now();
-
-        // BUILD FRESH TOKENS EACH ATTEMPT
-        const body = buildRpcBody(rpcId, params, this.csrfToken);
-        const url = this.buildUrl(rpcId, path);
-        const headers = this.getHeaders();
-
-        const response = await fetch(url, {
-          method: "POST",
-          headers,
-          body,
-          signal: AbortSignal.timeout(timeout),
-        });
-
-        // Auth error - try 4-layer recovery: auth refresh → disk reload → CDP → fail
-        if ((response.status === 401 || response.status === 403) && !authRetried && this.onAuthRefresh) {
-          authRetried = true;
-          const refreshed = await this.onAuthRefresh();
-          if (refreshed) continue;
-          
-          // Try disk reload
-          if (this.onDiskReload && !diskReloaded) {
-            diskReloaded = true;
-            const reloaded = await this.onDiskReload();
-            if (reloaded) {
-              authRetried = false;
-              continue;
-            }
-          }
-          
-          // Try CDP refresh
-          if (this.onCDPRefresh && !cdpRefreshed) {
-            cdpRefreshed = true;
-            const cdpOk = await this.onCDPRefresh();
-            if (cdpOk) {
-              authRetried = false;
-              diskReloaded = false;
-              continue;
-            }
-          }
-          
-          throw AppError.fromStatus(response.status);
-        }
+  private enqueue(call: QueuedCall, path: string, timeout: number): void {
+    let batch = this.queues.get(path);
+    if (!batch) {
+      batch = { calls: [], timeout, timer: setTimeout(() => void this.flush(path), Config.BATCH_WINDOW_MS) };
+      this.queues.set(path, batch);
+    }
+    batch.calls.push(call);
+    batch.timeout = Math.max(batch.timeout, timeout);
+
+    if (batch.calls.length >= Config.BATCH_MAX_CALLS) {
+      void this.flush(path);
+    }
+  }
+
+  private async flush(path: string): Promise<void> {
+    const batch = this.queues.get(path);
+    if (!batch) return;
+    this.queues.delete(path);
+    clearTimeout(batch.timer);
 
-        // Retryable server error (5xx) or rate limit (429)
-        if ((response.status >= 500 || response.status === 429) && attempt < maxRetries) {
-          // Use longer backoff for 429 (start at 2s) vs 5xx (start at 1s)
-          const baseDelay = response.status === 429 ? 2000 : 1000;
-          const delay = baseDelay * Math.pow(2, attempt);
-          await Bun.sleep(delay);
-          continue;
+    try {
+      const results = await this.execute(batch.calls, path, batch.timeout);
+      batch.calls.forEach((call, i) => {
+        try {
+          call.resolve(unwrapResult(results[i]));
+        } catch (e) {
+          call.reject(e);
         }
+      });
+    } catch (e) {
+      for (const call of batch.calls) call.reject(e);
+    }
+  }
+
+  /**
+   * Send one batchexecute request through the interceptor chain
+   * (rate limiting, auth recovery, retries)
+   */
+  private async execute(calls: RpcCall[], path: string, timeout: number, reconcile?: Reconcile): Promise<RpcResult[]> {
+    const first = calls[0];
+    if (!first) return [];
+    const rpcIds = [...new Set(calls.map((c) => c.rpcId))].join(",");
 
+    return runInterceptors(
+      this.interceptors,
+      {
+        kind: "rpc",
+        rpcIds: calls.map((c) => c.rpcId),
+        timeout,
+        unsafe: calls.some((c) => !isIdempotent(c.rpcId)),
+        reconcile: reconcile && calls.length === 1
+          ? async () => {
+            const existing = await reconcile();
+            return existing == null ? null : [{ ok: true, value: existing } satisfies RpcResult];
+          }
+          : undefined,
+      },
+      // BUILD FRESH TOKENS EACH ATTEMPT
+      () => ({
+        url: this.buildUrl(rpcIds, path),
+        headers: this.getHeaders(),
+        body: calls.length === 1
+          ? buildRpcBody(first.rpcId, first.params, this.csrfToken)
+          : buildBatchRpcBody(calls, this.csrfToken),
+      }),
+      async (response) => {
         if (!response.ok) {
           throw AppError.fromStatus(response.status);
         }
 
         const text = await response.text();
-        const parsed = this.parseResponse(text);
-        
-        try {
-          return this.extractResult(parsed, rpcId);
-        } catch (e) {
-          // Check for auth error in RPC response - 4-layer recovery
-          if (isAuthError(e) && !authRetried && this.onAuthRefresh) {
-            authRetried = true;
-            const refreshed = await this.onAuthRefresh();
-            if (refreshed) continue;
-            
-            // Try disk reload
-            if (this.onDiskReload && !diskReloaded) {
-              diskReloaded = true;
-              const reloaded = await this.onDiskReload();
-              if (reloaded) {
-                authRetried = false;
-                continue;
-              }
-            }
-            
-            // Try CDP refresh
-            if (this.onCDPRefresh && !cdpRefreshed) {
-              cdpRefreshed = true;
-              const cdpOk = await this.onCDPRefresh();
-              if (cdpOk) {
-                authRetried = false;
-                diskReloaded = false;
-                continue;
-              }
-            }
-          }
-          throw e;
-        }
-      } catch (e) {
-        if (e instanceof AppError) throw e;
-        
-        // Network/timeout error - retry
-        if (attempt < maxRetries) {
-          const delay = 1000 * Math.pow(2, attempt);
-          await Bun.sleep(delay);
-          continue;
-        }
-        
-        throw wrapError(e);
-      }
-    }
+        const results = this.extractResults(parseChunkedResponse(text), calls);
 
-    throw new AppError({
-      code: 'NETWORK_ERROR',
-      message: 'Request failed after retries',
-      retryable: false,
-    });
+        // Auth error in any envelope - recovery resends the whole batch
+        const authFailure = results.find((r) => !r.ok && isAuthError(r.error));
+        if (authFailure && !authFailure.ok) throw authFailure.error;
+        return results;
+      }
+    );
   }
 
   /**
-   * Execute streaming query (different endpoint format)
+   * Execute streaming query (different endpoint format) through the same
+   * interceptor chain as call(). onChunk receives decoded body text as it
+   * arrives and may throw (e.g. AUTH_EXPIRED for RPC error 16 in the stream);
+   * onRetry runs before a resend so partial output can be discarded.
+   * The full text of the successful attempt is returned.
    */
   async streamQuery(
     queryParams: unknown,
-    notebookId: string,
-    timeout: number = Config.QUERY_TIMEOUT
+    options: {
+      timeout?: number;
+      onChunk?: (text: string) => void;
+      onRetry?: () => void;
+    } = {}
   ): Promise<string> {
-    this.reqidCounter += 100000;
-    const reqId = this.reqidCounter;
-
-    const body = buildQueryBody(queryParams, this.csrfToken);
+    const { timeout = Config.QUERY_TIMEOUT, onChunk, onRetry } = options;
+
+    return runInterceptors(
+      this.interceptors,
+      { kind: "query", rpcIds: ["query"], timeout, unsafe: false },
+      (attempt) => {
+        if (attempt > 0) onRetry?.();
+        this.reqidCounter += 100000;
+        const url = new URL(`${Config.BASE_URL}${Config.QUERY_ENDPOINT}`);
+        url.searchParams.set("_reqid", String(this.reqidCounter));
+        return {
+          url,
+          headers: { ...this.getHeaders(), ...Config.RPC_HEADERS },
+          // BUILD FRESH TOKENS EACH ATTEMPT
+          body: buildQueryBody(queryParams, this.csrfToken),
+        };
+      },
+      async (response) => {
+        if (response.status === 401 || response.status === 403) {
+          throw AppError.fromStatus(response.status);
+        }
+        if (!response.ok) {
+          const text = await response.text();
+          throw new AppError({
+            code: 'RPC_ERROR',
+            message: `Query failed: HTTP ${response.status} - ${text}`,
+            statusCode: response.status,
+            retryable: response.status >= 500,
+          });
+        }
+        return this.readStream(response, onChunk);
+      }
+    );
+  }
 
-    const urlParams = new URLSearchParams({
-      bl: Config.BL,
-      hl: "en",
-      _reqid: String(reqId),
-      rt: "c",
-    });
-    if (this.sessionId) {
-      urlParams.set("f.sid", this.sessionId);
+  /**
+   * Read a response body, passing decoded text to onChunk as it arrives
+   */
+  private async readStream(response: Response, onChunk?: (text: string) => void): Promise<string> {
+    if (!onChunk || !response.body) {
+      const text = await response.text();
+      onChunk?.(text);
+      return text;
     }
 
-    const headers = {
-      ...this.getHeaders(),
-      ...Config.RPC_HEADERS,
-    };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = decoder.decode(value, { stream: true });
+        text += chunk;
+        onChunk(chunk);
+      }
+    } catch (e) {
+      await reader.cancel().catch(() => {});
+      throw e;
+    }
+    const tail = decoder.decode();
+    if (tail) {
+      text += tail;
+      onChunk(tail);
+    }
+    return text;
+  }
 
-    const response = await fetch(
-      `${Config.BASE_URL}${Config.QUERY_ENDPOINT}?${urlParams.toString()}`,
-      {
-        method: "POST",
-        headers,
-        body,
-        signal: AbortSignal.timeout(timeout),
+  /**
+   * Download a file (studio media) with the session cookies.
+   * Redirects are followed by hand so every hop is checked before the
+   * cookies are sent.
+   */
+  async download(
+    url: string,
+    timeout: number = Config.DOWNLOAD_TIMEOUT
+  ): Promise<{ data: Uint8Array; contentType: string }> {
+    const signal = AbortSignal.timeout(timeout);
+    let target = url;
+    let response: Response | undefined;
+
+    for (let hop = 0; hop <= MAX_DOWNLOAD_REDIRECTS; hop++) {
+      if (!isTrustedMediaUrl(target)) {
+        throw AppError.validation(`Refusing to download from untrusted URL: ${target}`);
       }
-    );
+      response = await fetch(target, {
+        headers: {
+          Referer: `${Config.BASE_URL}/`,
+          Cookie: cookiesToHeader(this.cookies),
+          "User-Agent": Config.USER_AGENT,
+        },
+        redirect: "manual",
+        signal,
+      });
 
-    if (!response.ok) {
-      const text = await response.text();
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      target = new URL(location, target).toString();
+      response = undefined;
+    }
+
+    if (!response) {
       throw new AppError({
-        code: 'RPC_ERROR',
-        message: `Query failed: HTTP ${response.status} - ${text}`,
-        statusCode: response.status,
-        retryable: response.status >= 500,
+        code: 'NETWORK_ERROR',
+        message: `Download failed: more than ${MAX_DOWNLOAD_REDIRECTS} redirects`,
+        retryable: false,
       });
     }
 
-    return response.text();
+    if (!response.ok) {
+      throw AppError.fromStatus(response.status, `Download failed: HTTP ${response.status}`);
+    }
+
+    // Expired cookies redirect media URLs to the Google sign-in page
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.startsWith("text/html")) {
+      throw AppError.authExpired("Download was redirected to a sign-in page");
+    }
+
+    return { data: new Uint8Array(await response.arrayBuffer()), contentType };
   }
 }
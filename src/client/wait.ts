@@ -0,0 +1,95 @@
+/**
+ * Long-running task waits
+ *
+ * Polls with exponentially growing intervals until a task settles or its
+ * per-type budget runs out. Running out is not an error: callers get the
+ * last polled value and report the task as still running. Neither is a
+ * failed poll: the task keeps running server-side, so errors are retried
+ * until MAX_POLL_ERRORS in a row, then the wait gives up the same way.
+ */
+
+import { Config } from "../config";
+
+export type WaitTaskType = keyof typeof Config.WAIT_TIMEOUTS;
+
+// Consecutive failed polls before a wait gives up
+const MAX_POLL_ERRORS = 3;
+
+export interface WaitOptions<T> {
+  poll: () => Promise<T>;
+  isDone: (value: T) => boolean;
+  timeout: number;
+  initialInterval?: number | undefined;
+  maxInterval?: number | undefined;
+  factor?: number | undefined;
+  // Called after every poll that did not settle the task
+  onProgress?: ((value: T, elapsedMs: number) => void) | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+export type WaitResult<T> =
+  | { done: true; value: T; elapsedMs: number }
+  | { done: false; value: T | undefined; elapsedMs: number; error?: unknown };
+
+/**
+ * Wait budget for a task type, optionally overridden in seconds
+ */
+export function waitTimeout(type: WaitTaskType, overrideSeconds?: number): number {
+  return overrideSeconds !== undefined ? overrideSeconds * 1000 : Config.WAIT_TIMEOUTS[type];
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Poll until isDone, the timeout elapses, or the signal aborts
+ */
+export async function waitFor<T>(options: WaitOptions<T>): Promise<WaitResult<T>> {
+  const {
+    poll,
+    isDone,
+    timeout,
+    initialInterval = Config.WAIT_POLL_INITIAL,
+    maxInterval = Config.WAIT_POLL_MAX,
+    factor = Config.WAIT_POLL_FACTOR,
+    onProgress,
+    signal,
+  } = options;
+
+  const startedAt = Date.now();
+  let interval = initialInterval;
+  let value: T | undefined;
+  let error: unknown;
+  let errors = 0;
+
+  while (!signal?.aborted) {
+    try {
+      value = await poll();
+      error = undefined;
+      errors = 0;
+    } catch (e) {
+      error = e;
+      if (++errors >= MAX_POLL_ERRORS) break;
+    }
+    const elapsedMs = Date.now() - startedAt;
+    if (error === undefined) {
+      if (isDone(value as T)) return { done: true, value: value as T, elapsedMs };
+      onProgress?.(value as T, elapsedMs);
+    }
+    if (elapsedMs + interval > timeout) break;
+
+    await sleep(interval, signal);
+    interval = Math.min(interval * factor, maxInterval);
+  }
+
+  return { done: false, value, elapsedMs: Date.now() - startedAt, ...(error !== undefined && { error }) };
+}
@@ -2,13 +2,101 @@
  * Centralized configuration
  */
 
+const DEFAULT_BASE_URL = "https://notebooklm.google.com";
+
+/**
+ * Origin from NOTEBOOKLM_BASE_URL, which may only point at a local stand-in:
+ * the origin receives the session cookies and CSRF token
+ */
+function envBaseUrl(): string | undefined {
+  const value = process.env['NOTEBOOKLM_BASE_URL'];
+  if (!value) return undefined;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`NOTEBOOKLM_BASE_URL is not a valid URL: ${value}`);
+  }
+  if (url.protocol !== "http:" || (url.hostname !== "localhost" && url.hostname !== "127.0.0.1")) {
+    throw new Error(`NOTEBOOKLM_BASE_URL must be an http://localhost or http://127.0.0.1 origin, got ${value}`);
+  }
+  return url.origin;
+}
+
+// NotebookLM origin; NOTEBOOKLM_BASE_URL points the plugin at a local stand-in
+let baseUrl = (envBaseUrl() || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+/**
+ * Override the NotebookLM origin (for testing); no argument restores the default
+ */
+export function setBaseUrl(url?: string): void {
+  baseUrl = (url || envBaseUrl() || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+// Project the plugin was loaded for (from the plugin context)
+let projectDir: string | null = null;
+
+/**
+ * Set the project directory; null falls back to the working directory
+ */
+export function setProjectDir(dir: string | null | undefined): void {
+  projectDir = dir || null;
+}
+
+/**
+ * Project directory for files written by tools and for fixtures (falls back to cwd)
+ */
+export function getProjectDir(): string {
+  return projectDir || process.cwd();
+}
+
+const TRANSPORT_MODES = ['live', 'record', 'replay'] as const;
+
+export type TransportMode = typeof TRANSPORT_MODES[number];
+
+/**
+ * NOTEBOOKLM_TRANSPORT_MODE, checked exactly: a misspelled replay or record
+ * must not fall back to live traffic
+ */
+function envTransportMode(): TransportMode {
+  const value = process.env['NOTEBOOKLM_TRANSPORT_MODE'];
+  if (value === undefined || value === '') return 'live';
+  const mode = TRANSPORT_MODES.find((m) => m === value);
+  if (!mode) {
+    throw new Error(`NOTEBOOKLM_TRANSPORT_MODE must be one of ${TRANSPORT_MODES.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+  return mode;
+}
+
+let transportMode = envTransportMode();
+let fixturesDir = process.env['NOTEBOOKLM_FIXTURES_DIR'] || 'test/fixtures';
+
+/**
+ * Override the transport mode and fixture directory (for testing); no
+ * arguments restore the environment settings
+ */
+export function setTransportMode(mode?: TransportMode, dir?: string): void {
+  transportMode = mode ?? envTransportMode();
+  fixturesDir = dir || process.env['NOTEBOOKLM_FIXTURES_DIR'] || 'test/fixtures';
+}
+
+// Comma-separated env var as a trimmed list
+function envList(name: string): string[] {
+  return (process.env[name] || "").split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+}
+
 export const Config = {
   // Base URLs
-  BASE_URL: "https://notebooklm.google.com",
-  BATCHEXECUTE_URL: "https://notebooklm.google.com/_/LabsTailwindUi/data/batchexecute",
+  get BASE_URL(): string {
+    return baseUrl;
+  },
+  get BATCHEXECUTE_URL(): string {
+    return `${baseUrl}/_/LabsTailwindUi/data/batchexecute`;
+  },
   QUERY_ENDPOINT: "/_/LabsTailwindUi/data/google.internal.labs.tailwind.orchestration.v1.LabsTailwindOrchestrationService/GenerateFreeFormStreamed",
   
-  // Backend label - update when Google changes it
+  // Backend label fallback, used until the current one is read from the
+  // NotebookLM page (see AuthManager.refreshCsrf)
   BL: process.env['NOTEBOOKLM_BL'] || "boq_labs-tailwind-frontend_20260120.08_p0",
   
   // CDP (Chrome DevTools Protocol) settings - ENABLED by default for personal use
@@ -45,7 +133,70 @@ export const Config = {
   DEFAULT_TIMEOUT: 30000,
   SOURCE_ADD_TIMEOUT: 120000,
   QUERY_TIMEOUT: 120000,
+  DOWNLOAD_TIMEOUT: 300000,
+
+  // batchexecute batching: max RPCs per request, and how long concurrent
+  // calls are collected before sending (ms)
+  BATCH_MAX_CALLS: 20,
+  BATCH_WINDOW_MS: 10,
+
+  // Wait budgets (ms) for research_start / studio_create with wait: true
+  WAIT_TIMEOUTS: {
+    research_fast: 180000,
+    research_deep: 1200000,
+    audio: 900000,
+    video: 1200000,
+    report: 300000,
+    flashcards: 300000,
+    quiz: 300000,
+    infographic: 600000,
+    slide_deck: 600000,
+    data_table: 300000,
+  },
+  // How long background tasks are polled before they expire (ms), by kind
+  // (research mode or studio type) with per-type fallbacks
+  TASK_LIFETIMES: {
+    research: 1800000,
+    research_fast: 900000,
+    research_deep: 3600000,
+    studio: 3600000,
+    audio: 3600000,
+    video: 5400000,
+    report: 1200000,
+    flashcards: 1200000,
+    quiz: 1200000,
+    infographic: 1800000,
+    slide_deck: 1800000,
+    data_table: 1200000,
+  },
+  // Background scheduler: tick interval, per-task poll backoff, parallel polls
+  SCHEDULER_TICK: 5000,
+  TASK_POLL_INITIAL: 10000,
+  TASK_POLL_MAX: 120000,
+  SCHEDULER_CONCURRENCY: 2,
+  // Poll interval grows from initial to max by WAIT_POLL_FACTOR
+  WAIT_POLL_INITIAL: 2000,
+  WAIT_POLL_MAX: 30000,
+  WAIT_POLL_FACTOR: 1.5,
   
+  // Research import policy (applies to research_import and auto-import)
+  RESEARCH_AUTO_IMPORT: process.env['NOTEBOOKLM_RESEARCH_AUTO_IMPORT'] === 'true' || process.env['NOTEBOOKLM_RESEARCH_AUTO_IMPORT'] === '1',
+  RESEARCH_ALLOW_DOMAINS: envList('NOTEBOOKLM_RESEARCH_ALLOW_DOMAINS'),
+  RESEARCH_BLOCK_DOMAINS: envList('NOTEBOOKLM_RESEARCH_BLOCK_DOMAINS'),
+  // Result types: web, google_doc, google_slides, google_sheets, deep_report
+  RESEARCH_TYPES: envList('NOTEBOOKLM_RESEARCH_TYPES'),
+  RESEARCH_MAX_IMPORT: parseInt(process.env['NOTEBOOKLM_RESEARCH_MAX_IMPORT'] || '0', 10) || undefined,
+
+  // Transport mode: live (default), record (save fixtures) or replay (serve
+  // fixtures, no network or auth needed)
+  get TRANSPORT_MODE(): TransportMode {
+    return transportMode;
+  },
+  // Relative to the project directory
+  get FIXTURES_DIR(): string {
+    return fixturesDir;
+  },
+
   // Cache directory
   CACHE_DIR: ".notebooklm-mcp",
 } as const;
@@ -1,7 +1,10 @@
 /**
  * OpenCode Hooks - Enhanced with unified event handler and context inference
  */
-import { getClient } from '../client';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import { getClient, type NotebookLMClient } from '../client';
+import { Config, getProjectDir, setProjectDir } from '../config';
+import { AppError } from '../errors';
 import { getAuthManager } from '../auth/manager';
 import {
   getState,
@@ -9,14 +12,12 @@ import {
   setLastSource,
   setConversation,
   setAuthStatus,
-  getPendingTasks,
-  updatePendingTask,
-  removePendingTask,
   getContextSummary,
   reset,
-  cleanupStaleTasks,
+  resumePendingTasks,
 } from '../state/session';
 import * as cache from '../state/cache';
+import { startScheduler, resetScheduler, tick } from './scheduler';
 
 // ============================================================================
 // Types
@@ -47,17 +48,27 @@ interface PluginContext {
       log: (opts: { level: string; message: string }) => void;
     };
   };
+  directory?: string;
 }
 
-// Tools that need notebook context
+// Tools that need notebook context (notebook_delete excluded: its target must be explicit)
 const NOTEBOOK_CONTEXT_TOOLS = [
   'notebook_get',
   'notebook_query',
-  'notebook_delete',
+  'notebook_rename',
   'source_add',
+  'source_list',
+  'source_delete',
   'research_start',
+  'research_status',
+  'research_import',
   'studio_create',
+  'studio_list',
   'studio_delete',
+  'studio_download',
+  'mindmap_create',
+  'mindmap_list',
+  'mindmap_delete',
 ];
 
 // Tools that update source context
@@ -71,17 +82,45 @@ let pluginContext: PluginContext | null = null;
 
 export function setPluginContext(ctx: PluginContext): void {
   pluginContext = ctx;
+  setProjectDir(ctx.directory);
+  startScheduler(getSchedulerClient, showToast);
+}
+
+/**
+ * Client for background polling. Unlike getClient it never starts
+ * interactive auth (a browser login); without valid tokens the scheduler
+ * waits and re-auth is left to tool calls.
+ */
+async function getSchedulerClient(): Promise<NotebookLMClient> {
+  if (Config.TRANSPORT_MODE !== 'replay' && !getAuthManager().isAuthenticated()) {
+    throw AppError.authMissing();
+  }
+  return getClient();
 }
 
 export function getPluginContext(): PluginContext | null {
   return pluginContext;
 }
 
+/**
+ * Resolve a tool's output path inside the project directory; absolute
+ * paths and `..` escapes that land outside it are rejected
+ */
+export function resolveProjectPath(path: string): string {
+  const root = getProjectDir();
+  const resolved = resolve(root, path);
+  const rel = relative(root, resolved);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw AppError.validation(`Output path must be inside the project directory: ${path}`);
+  }
+  return resolved;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function showToast(message: string, level: 'info' | 'success' | 'error' = 'info'): void {
+export function showToast(message: string, level: 'info' | 'success' | 'error' = 'info'): void {
   if (pluginContext?.client?.app?.log) {
     pluginContext.client.app.log({ level, message: `[NotebookLM] ${message}` });
   }
@@ -92,8 +131,12 @@ function showToast(message: string, level: 'info' | 'success' | 'error' = 'info'
 // ============================================================================
 
 async function handleSessionCreated(): Promise<void> {
-  // Reset state for new session
+  // Reset state for new session, picking up tasks started by earlier ones
   reset();
+  const resumed = resumePendingTasks();
+  if (resumed > 0) {
+    showToast(`Resuming ${resumed} NotebookLM task(s) from a previous session`);
+  }
   
   // Initialize auth via AuthManager
   const authManager = getAuthManager();
@@ -132,84 +175,15 @@ async function handleSessionCreated(): Promise<void> {
 }
 
 async function handleSessionIdle(): Promise<void> {
-  const pending = getPendingTasks();
-  if (pending.length === 0) return;
-  
-  // Cleanup stale tasks first (older than 10 minutes)
-  cleanupStaleTasks(10 * 60 * 1000);
-  
-  // Guard: check if client can be created
-  let client: Awaited<ReturnType<typeof getClient>>;
-  try {
-    client = await getClient();
-  } catch {
-    // No valid tokens, skip polling
-    return;
-  }
-  
-  for (const task of pending) {
-    // Skip if recently checked (within 5 seconds)
-    if (task.lastCheckedAt && Date.now() - task.lastCheckedAt < 5000) {
-      continue;
-    }
-    
-    try {
-      if (task.type === 'research') {
-        const status = await client.pollResearch(task.notebookId, task.id);
-        
-        if (status.status === 'completed') {
-          // Auto-import sources
-          await client.importResearchSources(task.notebookId, task.id);
-          removePendingTask(task.id);
-          cache.del(cache.key.notebook(task.notebookId));
-          showToast(`Research complete: Found ${status.sources?.length || 0} sources`, 'success');
-        } else if (status.status === 'failed') {
-          removePendingTask(task.id);
-          showToast('Research failed', 'error');
-        } else {
-          updatePendingTask(task.id, { status: 'processing' });
-        }
-      }
-      
-      if (task.type === 'studio') {
-        const artifacts = await client.pollStudioStatus(task.notebookId);
-        const artifact = artifacts.find(a => a.id === task.id);
-        
-        if (artifact?.status === 'ready') {
-          removePendingTask(task.id);
-          showToast(`Studio content ready: ${task.id.slice(0, 8)}`, 'success');
-        } else if (artifact?.status === 'failed') {
-          removePendingTask(task.id);
-          showToast('Studio generation failed', 'error');
-        } else {
-          updatePendingTask(task.id, { status: 'processing' });
-        }
-      }
-    } catch (error) {
-      // Track retry count, remove after 3 failures
-      const retryCount = task.retryCount || 0;
-      if (retryCount >= 3) {
-        removePendingTask(task.id);
-        showToast(`Task ${task.id.slice(0, 8)} removed after 3 failed retries`, 'error');
-      } else {
-        updatePendingTask(task.id, { 
-          error: error instanceof Error ? error.message : 'Polling failed',
-          retryCount: retryCount + 1,
-        });
-      }
-    }
-  }
+  // The scheduler polls in the background; idle is just a chance to catch up
+  await tick(getSchedulerClient, showToast);
 }
 
 function handleSessionDeleted(): void {
-  // Cleanup on session end
+  // Cleanup on session end; unfinished tasks stay on disk for the next session
   reset();
+  resetScheduler();
   cache.clear();
-  // Clear any pending tasks
-  const pending = getPendingTasks();
-  for (const task of pending) {
-    removePendingTask(task.id);
-  }
 }
 
 // ============================================================================
@@ -294,7 +268,7 @@ export async function onToolExecuteAfter(context: AfterContext): Promise<void> {
     }
   }
   
-  if (toolName === 'notebook_delete') {
+  if (toolName === 'notebook_delete' && data && typeof data === 'object' && 'deleted' in data) {
     cache.del(cache.key.notebooks());
     if (args['notebook_id'] === getState().notebookId) {
       setActiveNotebook(null, null);
@@ -0,0 +1,219 @@
+/**
+ * Background task scheduler
+ *
+ * Polls pending research/studio tasks on a timer instead of waiting for
+ * session.idle. Each task backs off independently, studio tasks of the same
+ * notebook share one pollStudioStatus call, and at most
+ * SCHEDULER_CONCURRENCY notebooks/research tasks are polled at once.
+ */
+
+import { Config } from '../config';
+import type { NotebookLMClient } from '../client';
+import {
+  getPendingTasks,
+  updatePendingTask,
+  removePendingTask,
+  cleanupStaleTasks,
+  syncPendingTasks,
+  isTaskFinished,
+  type PendingTask,
+} from '../state/session';
+import * as cache from '../state/cache';
+
+export type SchedulerClient = Pick<
+  NotebookLMClient,
+  'pollResearch' | 'pollStudioStatus' | 'planResearchImport' | 'importResearchSources'
+>;
+
+export type Notify = (message: string, level?: 'info' | 'success' | 'error') => void;
+
+// Give up on a task after this many consecutive polling errors
+const MAX_POLL_ERRORS = 3;
+
+// Next poll time and current interval per task ID
+const backoff = new Map<string, { nextPollAt: number; interval: number }>();
+
+function isDue(task: PendingTask, now: number): boolean {
+  const entry = backoff.get(task.id);
+  return !entry || now >= entry.nextPollAt;
+}
+
+function scheduleNext(taskId: string, now: number, multiplier: number = Config.WAIT_POLL_FACTOR): void {
+  const previous = backoff.get(taskId)?.interval;
+  const interval = previous
+    ? Math.min(previous * multiplier, Config.TASK_POLL_MAX)
+    : Config.TASK_POLL_INITIAL;
+  backoff.set(taskId, { nextPollAt: now + interval, interval });
+}
+
+async function finish(task: PendingTask, outcome: Parameters<typeof removePendingTask>[1], error?: string): Promise<void> {
+  await removePendingTask(task.id, outcome, error);
+  backoff.delete(task.id);
+}
+
+async function recordError(task: PendingTask, error: unknown, now: number, notify: Notify): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Polling failed';
+  const retryCount = (task.retryCount || 0) + 1;
+  if (retryCount >= MAX_POLL_ERRORS) {
+    await finish(task, 'failed', message);
+    notify(`Task ${task.id.slice(0, 8)} removed after ${MAX_POLL_ERRORS} failed polls`, 'error');
+    return;
+  }
+  await updatePendingTask(task.id, { error: message, retryCount });
+  // Back off harder after errors
+  scheduleNext(task.id, now, Config.WAIT_POLL_FACTOR * 2);
+}
+
+async function pollResearchTask(client: SchedulerClient, task: PendingTask, now: number, notify: Notify): Promise<void> {
+  try {
+    const status = await client.pollResearch(task.notebookId, task.id);
+
+    if (status.status === 'completed' && Config.RESEARCH_AUTO_IMPORT) {
+      // Another session sharing tasks.json may have imported it meanwhile
+      if (isTaskFinished(task.id)) {
+        syncPendingTasks();
+        backoff.delete(task.id);
+        return;
+      }
+      // Auto-import whatever passes the configured import policy
+      const plan = await client.planResearchImport(task.notebookId, status.sources);
+      if (plan.accepted.length > 0) {
+        await client.importResearchSources(task.notebookId, task.id, plan.accepted.map(s => s.index));
+      }
+      await finish(task, 'imported');
+      cache.del(cache.key.notebook(task.notebookId));
+      notify(`Research complete: Imported ${plan.accepted.length} of ${status.sources.length} sources (${plan.skipped.length} filtered)`, 'success');
+    } else if (status.status === 'completed') {
+      // Leave importing to research_import so sources can be reviewed first;
+      // the completed task stays listed so research_import can find it
+      await updatePendingTask(task.id, { status: 'complete', result: { sources: status.sources.length } });
+      backoff.delete(task.id);
+      notify(`Research complete: Found ${status.sources.length} sources. Review with research_status`, 'success');
+    } else if (status.status === 'failed') {
+      await finish(task, 'failed');
+      notify('Research failed', 'error');
+    } else {
+      await updatePendingTask(task.id, { status: 'processing', retryCount: 0 });
+      scheduleNext(task.id, now);
+    }
+  } catch (error) {
+    await recordError(task, error, now, notify);
+  }
+}
+
+async function pollStudioNotebook(client: SchedulerClient, notebookId: string, tasks: PendingTask[], now: number, notify: Notify): Promise<void> {
+  let artifacts: Awaited<ReturnType<SchedulerClient['pollStudioStatus']>>;
+  try {
+    artifacts = await client.pollStudioStatus(notebookId);
+  } catch (error) {
+    for (const task of tasks) await recordError(task, error, now, notify);
+    return;
+  }
+
+  for (const task of tasks) {
+    const artifact = artifacts.find(a => a.id === task.id);
+    const name = artifact?.title || task.kind || 'Studio content';
+    if (artifact?.status === 'ready') {
+      await finish(task, 'completed');
+      notify(`${name} is ready. Save it with studio_download`, 'success');
+    } else if (artifact?.status === 'failed') {
+      await finish(task, 'failed');
+      notify(`${name} generation failed`, 'error');
+    } else {
+      await updatePendingTask(task.id, { status: 'processing', retryCount: 0 });
+      scheduleNext(task.id, now);
+    }
+  }
+}
+
+/**
+ * Run jobs with at most `limit` in flight
+ */
+async function runLimited(jobs: (() => Promise<void>)[], limit: number): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+      await job?.();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, jobs.length) }, worker));
+}
+
+/**
+ * Poll every task that is due; returns how many tasks were checked
+ */
+export async function pollTasks(client: SchedulerClient, notify: Notify, now = Date.now()): Promise<number> {
+  // Tasks resumed from tasks.json may be polled and finished by another session too
+  for (const id of syncPendingTasks()) backoff.delete(id);
+
+  // Completed research only waits for research_import
+  const due = getPendingTasks().filter(t => t.status !== 'complete' && isDue(t, now));
+  if (due.length === 0) return 0;
+
+  const jobs: (() => Promise<void>)[] = [];
+  const studioByNotebook = new Map<string, PendingTask[]>();
+  for (const task of due) {
+    if (task.type === 'research') {
+      jobs.push(() => pollResearchTask(client, task, now, notify));
+    } else {
+      studioByNotebook.set(task.notebookId, [...(studioByNotebook.get(task.notebookId) ?? []), task]);
+    }
+  }
+  for (const [notebookId, tasks] of studioByNotebook) {
+    jobs.push(() => pollStudioNotebook(client, notebookId, tasks, now, notify));
+  }
+
+  await runLimited(jobs, Config.SCHEDULER_CONCURRENCY);
+  return due.length;
+}
+
+/**
+ * Forget backoff state (for testing and session resets)
+ */
+export function resetScheduler(): void {
+  backoff.clear();
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/**
+ * One scheduler pass: expire stale tasks, then poll what is due
+ */
+export async function tick(getClient: () => Promise<SchedulerClient>, notify: Notify): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const expired = await cleanupStaleTasks();
+    if (expired > 0) {
+      notify(`${expired} task(s) expired without finishing. See task_list`, 'error');
+    }
+    if (getPendingTasks().every(t => t.status === 'complete')) return;
+
+    let client: SchedulerClient;
+    try {
+      client = await getClient();
+    } catch {
+      // No valid tokens, try again next tick
+      return;
+    }
+    await pollTasks(client, notify);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startScheduler(getClient: () => Promise<SchedulerClient>, notify: Notify, intervalMs: number = Config.SCHEDULER_TICK): void {
+  if (timer) return;
+  timer = setInterval(() => void tick(getClient, notify), intervalMs);
+  // Don't keep the process alive just for polling
+  timer.unref?.();
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -6,14 +6,41 @@
 
 import { tool } from "@opencode-ai/plugin";
 import type { Hooks } from "@opencode-ai/plugin";
+import { resolve, dirname } from "node:path";
+import { mkdirSync } from "node:fs";
 import { getClient, resetClient } from "./client";
+import { defaultImportPolicy, formatResearchReportMarkdown, narrowImportPolicy, researchReportTitle } from "./client/services/research";
 import { saveTokensToCache, parseCookieHeader, validateCookies, type AuthTokens } from "./auth/tokens";
 import { AppError } from "./errors";
-import { getState, updateState, setActiveNotebook, addPendingTask } from "./state/session";
+import type {
+  SourceContent,
+  StudioCreateType,
+  StudioOptionsMap,
+  AudioFormat,
+  AudioLength,
+  VideoFormat,
+  VideoStyle,
+  InfographicOrientation,
+  InfographicDetail,
+  SlideDeckFormat,
+  SlideDeckLength,
+  ReportFormat,
+  FlashcardDifficulty,
+  MindMap,
+} from "./types";
+import { formatConversationMarkdown } from "./client/conversations";
+import { waitFor, waitTimeout } from "./client/wait";
+import { formatMindMapMermaid, formatMindMapOutline, countMindMapNodes } from "./client/mindmap";
+import { getState, updateState, setActiveNotebook, setLastSource, setConversation, addPendingTask, updatePendingTask, removePendingTask, getPendingTasks, getReportSource, recordReportSource } from "./state/session";
 import * as cache from "./state/cache";
+import { listTasks } from "./state/tasks";
 
 const json = (data: unknown) => JSON.stringify(data, null, 2);
 
+// Polling error a wait gave up on, shaped like tool errors
+const lastError = (error: unknown) =>
+  error === undefined ? {} : { last_error: error instanceof AppError ? error.toJSON() : { message: String(error), code: "UNKNOWN" } };
+
 const notebook_list = tool({
   description: "List NotebookLM notebooks. Use skill({name:'nlm-list'}) for detailed workflow.",
   args: {
@@ -37,6 +64,8 @@ const notebook_list = tool({
   },
 });
 
+const QUERY_PROGRESS_INTERVAL = 3000;
+
 const notebook_query = tool({
   description: "Ask AI about notebook sources. Multi-turn via conversation_id. Use skill({name:'nlm-query'}) for help.",
   args: {
@@ -52,9 +81,134 @@ const notebook_query = tool({
       const notebookId = args.notebook_id || state.notebookId;
       if (!notebookId) return json({ error: "No notebook. Run notebook_list first." });
       const sourceIds = args.source_ids?.split(",").map(s => s.trim());
-      const result = await client.query(notebookId, args.query, sourceIds, args.conversation_id);
+
+      // Report streaming progress, throttled so long answers don't flood the log
+      let lastProgressAt = 0;
+      const progress = (message: string) => {
+        if (Date.now() - lastProgressAt < QUERY_PROGRESS_INTERVAL) return;
+        lastProgressAt = Date.now();
+        showToast(message);
+      };
+      const result = await client.query(notebookId, args.query, sourceIds, args.conversation_id, undefined, {
+        onThinking: text => progress(`Thinking: ${text.trim().split("\n").pop()?.slice(0, 80) ?? ""}`),
+        onAnswer: text => progress(`Answering... (${text.length} chars)`),
+      });
       updateState({ conversationId: result.conversationId, lastQuery: args.query, lastAnswer: result.answer });
-      return json({ answer: result.answer, conversation_id: result.conversationId });
+      return json({
+        answer: result.answer,
+        conversation_id: result.conversationId,
+        turn_id: result.turnId,
+        citations: result.citations.map(c => ({
+          number: c.number,
+          source_id: c.sourceId,
+          source_title: c.sourceTitle,
+          passage: c.passage,
+          answer_span: c.answerSpan,
+        })),
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const conversation_list = tool({
+  description: "List saved query conversations for a notebook (all notebooks if none is active).",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId || undefined;
+      const conversations = await client.listConversations(notebookId);
+      return json({
+        conversations: conversations.map(c => ({
+          conversation_id: c.conversationId,
+          notebook_id: c.notebookId,
+          turns: c.turnCount,
+          first_query: c.firstQuery,
+          created_at: c.createdAt,
+          updated_at: c.updatedAt,
+        })),
+        count: conversations.length,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const conversation_get = tool({
+  description: "Show the transcript of a saved conversation.",
+  args: {
+    conversation_id: tool.schema.string().optional().describe("Conversation ID (defaults to active conversation)"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const conversationId = args.conversation_id || getState().conversationId;
+      if (!conversationId) return json({ error: "No conversation. Run conversation_list first." });
+      const conversation = await client.getConversation(conversationId);
+      if (!conversation) return json({ error: AppError.notFound(`Conversation ${conversationId}`).toJSON() });
+      return json({
+        conversation_id: conversation.id,
+        notebook_id: conversation.notebookId,
+        created_at: conversation.createdAt,
+        updated_at: conversation.updatedAt,
+        source_ids: conversation.sourceIds,
+        turns: conversation.turns.map(t => ({ turn: t.turnNumber, query: t.query, answer: t.answer, created_at: t.createdAt ?? null })),
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const conversation_clear = tool({
+  description: "Delete a saved conversation's local history.",
+  args: {
+    conversation_id: tool.schema.string().describe("Conversation ID"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      if (!(await client.clearConversation(args.conversation_id))) {
+        return json({ error: AppError.notFound(`Conversation ${args.conversation_id}`).toJSON() });
+      }
+      if (getState().conversationId === args.conversation_id) setConversation(null);
+      return json({ cleared: args.conversation_id });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const conversation_export = tool({
+  description: "Export a saved conversation as Markdown, optionally writing it to a file in the project.",
+  args: {
+    conversation_id: tool.schema.string().optional().describe("Conversation ID (defaults to active conversation)"),
+    output_path: tool.schema.string().optional().describe("File path relative to the project, e.g. docs/notes.md"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const conversationId = args.conversation_id || getState().conversationId;
+      if (!conversationId) return json({ error: "No conversation. Run conversation_list first." });
+      const conversation = await client.getConversation(conversationId);
+      if (!conversation) return json({ error: AppError.notFound(`Conversation ${conversationId}`).toJSON() });
+
+      const markdown = formatConversationMarkdown(conversation);
+      if (!args.output_path) return json({ conversation_id: conversationId, markdown });
+
+      const path = resolveProjectPath(args.output_path);
+      mkdirSync(dirname(path), { recursive: true });
+      await Bun.write(path, markdown);
+      return json({ conversation_id: conversationId, written: path, turns: conversation.turns.length });
     } catch (e) {
       if (e instanceof AppError) return json({ error: e.toJSON() });
       return json({ error: { message: String(e), code: "UNKNOWN" } });
@@ -102,6 +256,61 @@ const notebook_create = tool({
   },
 });
 
+const notebook_rename = tool({
+  description: "Rename a notebook.",
+  args: {
+    title: tool.schema.string().describe("New notebook title"),
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const state = getState();
+      const notebookId = args.notebook_id || state.notebookId;
+      if (!notebookId) return json({ error: "No notebook selected" });
+      const title = args.title.trim();
+      if (!title) return json({ error: "Title must not be empty" });
+      const ok = await client.renameNotebook(notebookId, title);
+      if (!ok) return json({ error: "Failed to rename notebook" });
+      cache.del(cache.key.notebooks());
+      cache.del(cache.key.notebook(notebookId));
+      if (state.notebookId === notebookId) setActiveNotebook(notebookId, title);
+      return json({ renamed: { id: notebookId, title }, url: `https://notebooklm.google.com/notebook/${notebookId}` });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const notebook_delete = tool({
+  description: "Permanently delete a notebook. Requires confirm_title to exactly match the notebook's current title.",
+  args: {
+    notebook_id: tool.schema.string().describe("Notebook ID to delete"),
+    confirm_title: tool.schema.string().describe("Exact title of the notebook, as confirmation"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebooks = await client.listNotebooks();
+      const nb = notebooks.find(n => n.id === args.notebook_id);
+      if (!nb) return json({ error: AppError.notFound(`Notebook ${args.notebook_id}`).toJSON() });
+      if (args.confirm_title.trim() !== nb.title.trim()) {
+        return json({ error: AppError.validation(`confirm_title does not match notebook title "${nb.title}". Nothing was deleted.`).toJSON() });
+      }
+      const ok = await client.deleteNotebook(nb.id);
+      if (!ok) return json({ error: "Failed to delete notebook" });
+      cache.del(cache.key.notebooks());
+      cache.del(cache.key.notebook(nb.id));
+      if (getState().notebookId === nb.id) setActiveNotebook(null, null);
+      return json({ deleted: { id: nb.id, title: nb.title } });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
 const source_add = tool({
   description: "Add source to notebook. Specify type explicitly: urls, drive, or text.",
   args: {
@@ -117,29 +326,33 @@ const source_add = tool({
       const state = getState();
       const notebookId = args.notebook_id || state.notebookId;
       if (!notebookId) return json({ error: "No notebook. Run notebook_list first." });
+      // Source IDs from a recent source_list spare re-listing before the add
+      const known = cache.get<string[]>(cache.key.sourceIds(notebookId));
+      const knownIds = known ? new Set(known) : undefined;
+      cache.del(cache.key.notebook(notebookId));
 
       // URLs (websites, YouTube)
       if (args.urls) {
         const urlList = args.urls.trim().split(/[\s\n]+/).filter(u => u.startsWith("http"));
         if (urlList.length === 0) return json({ error: "No valid URLs found" });
         if (urlList.length === 1) {
-          const source = await client.addUrlSource(notebookId, urlList[0]!);
+          const source = await client.addUrlSource(notebookId, urlList[0]!, knownIds);
           return json(source ? { added: source } : { error: "Failed to add URL" });
         }
-        const sources = await client.addUrlSources(notebookId, urlList);
+        const sources = await client.addUrlSources(notebookId, urlList, knownIds);
         return json(sources.length > 0 ? { added: sources, count: sources.length } : { error: "Failed to add URLs" });
       }
 
       // Google Drive
       if (args.drive_id) {
-        const source = await client.addDriveSource(notebookId, args.drive_id, args.title || "Drive Document", "application/vnd.google-apps.document");
+        const source = await client.addDriveSource(notebookId, args.drive_id, args.title || "Drive Document", "application/vnd.google-apps.document", knownIds);
         return json(source ? { added: source } : { error: "Failed to add Drive document" });
       }
 
       // Text
       if (args.text) {
         if (!args.title) return json({ error: "Title required for text source" });
-        const source = await client.addTextSource(notebookId, args.text, args.title);
+        const source = await client.addTextSource(notebookId, args.text, args.title, knownIds);
         return json(source ? { added: source } : { error: "Failed to add text" });
       }
 
@@ -151,6 +364,127 @@ const source_add = tool({
   },
 });
 
+const source_list = tool({
+  description: "List sources in a notebook (id, title, type, url), optionally with each source's AI summary and keywords.",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    include_guides: tool.schema.boolean().optional().describe("Include summary and keywords per source"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const state = getState();
+      const notebookId = args.notebook_id || state.notebookId;
+      if (!notebookId) return json({ error: "No notebook. Run notebook_list first." });
+      const sources = await client.listSources(notebookId);
+      cache.set(cache.key.sourceIds(notebookId), sources.map(s => s.id), "notebook");
+      // One batched round-trip for all guides instead of one request per source
+      const guides = args.include_guides ? await client.getSourceGuides(sources.map(s => s.id)) : [];
+      return json({
+        notebook_id: notebookId,
+        sources: sources.map((s, i) => ({
+          id: s.id,
+          title: s.title,
+          type: s.type,
+          url: s.url,
+          ...(guides[i] && { summary: guides[i].summary, keywords: guides[i].keywords }),
+        })),
+        count: sources.length,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const SOURCE_PAGE_CHARS = 20000;
+
+const source_get = tool({
+  description: "Read a source's full text. Large documents are paged by character offset; pass next_offset to continue.",
+  args: {
+    source_id: tool.schema.string().optional().describe("Source ID (defaults to last used source)"),
+    offset: tool.schema.number().optional().describe("Character offset to start from (default 0)"),
+    max_chars: tool.schema.number().optional().describe(`Max characters to return (default ${SOURCE_PAGE_CHARS})`),
+    include_guide: tool.schema.boolean().optional().describe("Include AI summary and keywords"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const sourceId = args.source_id || getState().lastSourceId;
+      if (!sourceId) return json({ error: "No source. Run source_list first." });
+
+      // Cache full content so paging doesn't refetch the document
+      const cacheKey = cache.key.sourceContent(sourceId);
+      let content = cache.get<SourceContent>(cacheKey);
+      if (!content) {
+        content = await client.getSourceContent(sourceId);
+        cache.set(cacheKey, content, "source");
+      }
+
+      const offset = Math.max(0, Math.floor(args.offset ?? 0));
+      const maxChars = Math.max(1, Math.floor(args.max_chars ?? SOURCE_PAGE_CHARS));
+      const end = Math.min(offset + maxChars, content.charCount);
+      const guide = args.include_guide ? await client.getSourceGuide(sourceId) : null;
+
+      return json({
+        id: sourceId,
+        title: content.title,
+        type: content.sourceType,
+        url: content.url,
+        char_count: content.charCount,
+        offset,
+        content: content.content.slice(offset, end),
+        next_offset: end < content.charCount ? end : null,
+        ...(guide && { summary: guide.summary, keywords: guide.keywords }),
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const source_delete = tool({
+  description: "Delete one or more sources from a notebook.",
+  args: {
+    source_ids: tool.schema.string().describe("Comma-separated source IDs"),
+    notebook_id: tool.schema.string().optional().describe("Notebook the sources belong to"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const state = getState();
+      const notebookId = args.notebook_id || state.notebookId;
+      const sourceIds = args.source_ids.split(",").map(s => s.trim()).filter(Boolean);
+      if (sourceIds.length === 0) return json({ error: "No source IDs provided" });
+
+      const deleted: string[] = [];
+      const failed: { id: string; error: string }[] = [];
+      for (const sourceId of sourceIds) {
+        try {
+          if (await client.deleteSource(sourceId)) deleted.push(sourceId);
+          else failed.push({ id: sourceId, error: "Delete returned no result" });
+        } catch (e) {
+          failed.push({ id: sourceId, error: e instanceof Error ? e.message : String(e) });
+        }
+        cache.del(cache.key.source(sourceId));
+        cache.del(cache.key.sourceContent(sourceId));
+      }
+
+      if (deleted.length > 0) {
+        cache.del(cache.key.notebooks());
+        if (notebookId) cache.del(cache.key.notebook(notebookId));
+        if (state.lastSourceId && deleted.includes(state.lastSourceId)) setLastSource(null);
+      }
+      return json({ deleted, failed, count: deleted.length });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
 const research_start = tool({
   description: "Start web research. Use skill({name:'nlm-research'}) for workflow.",
   args: {
@@ -160,22 +494,99 @@ const research_start = tool({
     notebook_id: tool.schema.string().optional().describe("Existing notebook"),
     title: tool.schema.string().optional().describe("New notebook title"),
     wait: tool.schema.boolean().optional().describe("Wait for completion"),
+    max_wait: tool.schema.number().optional().describe("Wait budget in seconds (default: 3 min fast, 20 min deep)"),
   },
-  async execute(args) {
+  async execute(args, context) {
     try {
       const client = await getClient();
       const state = getState();
-      const result = await client.startResearch(args.query, args.source, args.mode, args.notebook_id || state.notebookId || undefined, args.title);
-      addPendingTask({ id: result.taskId || crypto.randomUUID(), type: "research", notebookId: result.notebookId, status: "pending", startedAt: Date.now() });
-      if (args.wait) {
-        for (let i = 0; i < 30; i++) {
-          await new Promise(r => setTimeout(r, 2000));
-          const status = await client.pollResearch(result.notebookId);
-          if (status.status === "completed") return json({ completed: status });
-          if (status.status === "failed") return json({ failed: status });
+      const mode = args.mode || "fast";
+      const result = await client.startResearch(args.query, args.source, mode, args.notebook_id || state.notebookId || undefined, args.title);
+      const taskId = result.taskId || crypto.randomUUID();
+      await addPendingTask({ id: taskId, type: "research", kind: `research_${mode}`, label: args.query, notebookId: result.notebookId, status: "pending", startedAt: Date.now() });
+      if (!args.wait) return json({ started: result });
+
+      const waited = await waitFor({
+        poll: () => client.pollResearch(result.notebookId, result.taskId || undefined),
+        isDone: task => task.status === "completed" || task.status === "failed",
+        timeout: waitTimeout(mode === "deep" ? "research_deep" : "research_fast", args.max_wait),
+        onProgress: (task, elapsed) => showToast(`Research (${mode}) ${task.status}: ${task.sources.length} sources so far, ${Math.round(elapsed / 1000)}s`),
+        signal: context.abort,
+      });
+      if (!waited.done) {
+        return json({ still_running: { ...result, task_id: taskId, status: waited.value?.status ?? "pending", elapsed_s: Math.round(waited.elapsedMs / 1000), ...lastError(waited.error) }, next: "Check later with research_status" });
+      }
+      if (waited.value.status === "failed") {
+        await removePendingTask(taskId, "failed");
+        return json({ failed: waited.value });
+      }
+      await updatePendingTask(taskId, { status: "complete" });
+      return json({ completed: waited.value });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+// Most recent research task started in this session for a notebook
+function pendingResearchTaskId(notebookId: string): string | undefined {
+  return getPendingTasks("research").filter(t => t.notebookId === notebookId).pop()?.id;
+}
+
+const research_status = tool({
+  description: "Check research progress and review discovered sources (index, title, url, type) and the report before importing. Can save the report to a Markdown file or add it as a text source.",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    task_id: tool.schema.string().optional().describe("Research task ID (from research_start)"),
+    include_report: tool.schema.boolean().optional().describe("Include the research report (default: true)"),
+    output_path: tool.schema.string().optional().describe("Save the report with a reference list to this Markdown file, relative to the project"),
+    add_as_source: tool.schema.boolean().optional().describe("Add the report to the notebook as a text source (once per task; repeats return the existing source)"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const taskId = args.task_id || pendingResearchTaskId(notebookId);
+      const task = await client.pollResearch(notebookId, taskId);
+
+      const saved: { written?: string; source_id?: string; already_added?: boolean } = {};
+      if ((args.output_path || args.add_as_source) && !task.report) {
+        return json({ error: `No report to save (research is ${task.status}; reports come from completed deep research)` });
+      }
+      const path = args.output_path ? resolveProjectPath(args.output_path) : undefined;
+      if (path) {
+        mkdirSync(dirname(path), { recursive: true });
+        await Bun.write(path, formatResearchReportMarkdown(task));
+        saved.written = path;
+      }
+      if (args.add_as_source) {
+        // Polling repeats this call; the report is only added once per task
+        const added = task.taskId ? getReportSource(task.taskId) : undefined;
+        if (added) {
+          saved.source_id = added;
+          saved.already_added = true;
+        } else {
+          const source = await client.addTextSource(notebookId, formatResearchReportMarkdown(task), researchReportTitle(task));
+          if (source) {
+            saved.source_id = source.id;
+            setLastSource(source.id);
+            if (task.taskId) await recordReportSource(task.taskId, notebookId, source.id);
+          }
+          cache.del(cache.key.notebook(notebookId));
         }
       }
-      return json({ started: result });
+
+      return json({
+        notebook_id: notebookId,
+        task_id: task.taskId || null,
+        status: task.status,
+        sources: task.sources,
+        count: task.sources.length,
+        ...(args.include_report !== false && task.report && { report: task.report }),
+        ...saved,
+      });
     } catch (e) {
       if (e instanceof AppError) return json({ error: e.toJSON() });
       return json({ error: { message: String(e), code: "UNKNOWN" } });
@@ -183,26 +594,402 @@ const research_start = tool({
   },
 });
 
+const research_import = tool({
+  description: "Import chosen discovered sources (by index from research_status) into the notebook. Configured domain/type policies apply and URLs already in the notebook are skipped.",
+  args: {
+    indices: tool.schema.string().optional().describe("Comma-separated source indices, e.g. 0,2,5 (default: all)"),
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    task_id: tool.schema.string().optional().describe("Research task ID (from research_start)"),
+    types: tool.schema.string().optional().describe("Comma-separated result types to keep, e.g. web,google_doc (within any configured types)"),
+    block_domains: tool.schema.string().optional().describe("Comma-separated extra domains to skip"),
+    max_count: tool.schema.number().optional().describe("Import at most this many sources"),
+    include_existing: tool.schema.boolean().optional().describe("Re-import URLs already in the notebook (overrides the default skip)"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const taskId = args.task_id || pendingResearchTaskId(notebookId);
+      if (!taskId) return json({ error: "No research task. Pass task_id from research_start." });
+
+      const task = await client.pollResearch(notebookId, taskId);
+      if (task.status !== "completed") return json({ error: `Research is ${task.status}, not completed` });
+
+      let chosen = task.sources;
+      if (args.indices) {
+        const entries = args.indices.split(",").map(s => s.trim()).filter(Boolean);
+        if (entries.length === 0 || entries.some(s => !/^\d+$/.test(s))) {
+          return json({ error: AppError.validation(`indices must be a comma-separated list of integers, e.g. 0,2,5 (got "${args.indices}")`).toJSON() });
+        }
+        const indices = [...new Set(entries.map(Number))];
+        const invalid = indices.filter(i => !task.sources.some(src => src.index === i));
+        if (invalid.length > 0) {
+          return json({ error: AppError.validation(`Unknown source indices: ${invalid.join(", ")}`).toJSON() });
+        }
+        chosen = task.sources.filter(src => indices.includes(src.index));
+      }
+
+      // Configured types and domains always apply; include_existing is the only widening option
+      const list = (value?: string) => value?.split(",").map(s => s.trim().toLowerCase()).filter(Boolean) ?? [];
+      const policy = narrowImportPolicy(defaultImportPolicy(), {
+        types: list(args.types),
+        blockDomains: list(args.block_domains),
+        maxCount: args.max_count,
+        includeExisting: args.include_existing,
+      });
+
+      const plan = await client.planResearchImport(notebookId, chosen, policy);
+      const imported = plan.accepted.length > 0
+        ? await client.importResearchSources(notebookId, taskId, plan.accepted.map(src => src.index))
+        : 0;
+      await removePendingTask(taskId, "imported");
+      cache.del(cache.key.notebook(notebookId));
+      return json({
+        imported,
+        requested: plan.accepted.map(src => ({ index: src.index, title: src.title, url: src.url })),
+        skipped: plan.skipped,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+interface StudioArgs {
+  type: StudioCreateType;
+  focus_prompt?: string | undefined;
+  language?: string | undefined;
+  audio_format?: AudioFormat | undefined;
+  audio_length?: AudioLength | undefined;
+  video_format?: VideoFormat | undefined;
+  video_style?: VideoStyle | undefined;
+  infographic_orientation?: InfographicOrientation | undefined;
+  infographic_detail?: InfographicDetail | undefined;
+  slide_format?: SlideDeckFormat | undefined;
+  slide_length?: SlideDeckLength | undefined;
+  report_format?: ReportFormat | undefined;
+  difficulty?: FlashcardDifficulty | undefined;
+}
+
+function buildStudioOptions(args: StudioArgs): StudioOptionsMap[StudioCreateType] {
+  const common = { focusPrompt: args.focus_prompt, language: args.language };
+  switch (args.type) {
+    case "audio": return { ...common, format: args.audio_format, length: args.audio_length };
+    case "video": return { ...common, format: args.video_format, style: args.video_style };
+    case "infographic": return { ...common, orientation: args.infographic_orientation, detail: args.infographic_detail };
+    case "slide_deck": return { ...common, format: args.slide_format, length: args.slide_length };
+    case "report": return { format: args.report_format, customPrompt: args.focus_prompt, language: args.language };
+    case "flashcards":
+    case "quiz": return { difficulty: args.difficulty };
+    case "data_table": return { description: args.focus_prompt, language: args.language };
+  }
+}
+
 const studio_create = tool({
-  description: "Generate AI content (audio/report/flashcards). Use skill({name:'nlm-studio'}) for help.",
+  description: "Generate AI content (audio/video/report/flashcards/...). Use skill({name:'nlm-studio'}) for help.",
   args: {
-    type: tool.schema.enum(["audio", "report", "flashcards", "infographic", "slide_deck", "data_table"]).describe("Content type"),
+    type: tool.schema.enum(["audio", "video", "report", "flashcards", "quiz", "infographic", "slide_deck", "data_table"]).describe("Content type"),
     notebook_id: tool.schema.string().optional().describe("Source notebook"),
-    focus_prompt: tool.schema.string().optional().describe("Focus topic"),
-    language: tool.schema.string().optional().describe("Output language"),
+    source_ids: tool.schema.string().optional().describe("Comma-separated source IDs (default: all sources)"),
+    focus_prompt: tool.schema.string().optional().describe("Focus topic (custom prompt for report, description for data_table)"),
+    language: tool.schema.string().optional().describe("Output language code, e.g. en"),
+    audio_format: tool.schema.enum(["deep_dive", "brief", "critique", "debate"]).optional().describe("Audio: podcast format"),
+    audio_length: tool.schema.enum(["short", "default", "long"]).optional().describe("Audio: length"),
+    video_format: tool.schema.enum(["explainer", "brief"]).optional().describe("Video: format"),
+    video_style: tool.schema.enum(["auto_select", "classic", "whiteboard", "kawaii", "anime", "watercolor", "retro_print", "heritage", "paper_craft"]).optional().describe("Video: visual style"),
+    infographic_orientation: tool.schema.enum(["landscape", "portrait", "square"]).optional().describe("Infographic: orientation"),
+    infographic_detail: tool.schema.enum(["concise", "standard", "detailed"]).optional().describe("Infographic: detail level"),
+    slide_format: tool.schema.enum(["detailed_deck", "presenter_slides"]).optional().describe("Slide deck: format"),
+    slide_length: tool.schema.enum(["short", "default"]).optional().describe("Slide deck: length"),
+    report_format: tool.schema.enum(["Briefing Doc", "Study Guide", "Blog Post", "Create Your Own"]).optional().describe("Report: format"),
+    difficulty: tool.schema.enum(["easy", "medium", "hard"]).optional().describe("Flashcards/quiz: difficulty"),
+    wait: tool.schema.boolean().optional().describe("Wait until the artifact is ready"),
+    max_wait: tool.schema.number().optional().describe("Wait budget in seconds (default depends on type)"),
   },
-  async execute(args) {
+  async execute(args, context) {
     try {
       const client = await getClient();
       const state = getState();
       const notebookId = args.notebook_id || state.notebookId;
       if (!notebookId) return json({ error: "No notebook" });
-      const opts: Record<string, unknown> = {};
-      if (args.focus_prompt) opts["focus_prompt"] = args.focus_prompt;
-      if (args.language) opts["language"] = args.language;
-      const artifactId = await client.createStudioContent(notebookId, args.type, opts);
-      addPendingTask({ id: artifactId || crypto.randomUUID(), type: "studio", notebookId, status: "pending", startedAt: Date.now() });
-      return json({ started: { artifactId, type: args.type }, estimated: args.type === "audio" ? "2-5 min" : "30-60 sec" });
+      const sourceIds = args.source_ids?.split(",").map(s => s.trim()).filter(Boolean);
+      const artifactId = await client.createStudioContent(notebookId, args.type, buildStudioOptions(args), sourceIds);
+      await addPendingTask({ id: artifactId || crypto.randomUUID(), type: "studio", kind: args.type, label: args.focus_prompt || args.type, notebookId, status: "pending", startedAt: Date.now() });
+      if (!args.wait || !artifactId) {
+        return json({ started: { artifactId, type: args.type }, estimated: args.type === "audio" || args.type === "video" ? "2-5 min" : "30-60 sec" });
+      }
+
+      const waited = await waitFor({
+        poll: async () => (await client.pollStudioStatus(notebookId)).find(a => a.id === artifactId),
+        isDone: artifact => artifact?.status === "ready" || artifact?.status === "failed",
+        timeout: waitTimeout(args.type, args.max_wait),
+        onProgress: (artifact, elapsed) => showToast(`Generating ${args.type} (${artifact?.status ?? "pending"}), ${Math.round(elapsed / 1000)}s`),
+        signal: context.abort,
+      });
+      if (!waited.done || !waited.value) {
+        return json({ still_running: { artifact_id: artifactId, type: args.type, status: waited.value?.status ?? "pending", elapsed_s: Math.round(waited.elapsedMs / 1000), ...(!waited.done && lastError(waited.error)) }, next: "Check later with studio_list" });
+      }
+      const artifact = waited.value;
+      await removePendingTask(artifactId, artifact.status === "ready" ? "completed" : "failed");
+      const summary = { artifact_id: artifact.id, type: artifact.type, title: artifact.title, status: artifact.status, url: artifact.url };
+      return json(artifact.status === "ready" ? { completed: summary } : { failed: summary });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const studio_list = tool({
+  description: "List studio artifacts of a notebook (type, status, created, url).",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    type: tool.schema.enum(["audio", "video", "report", "flashcards", "infographic", "slide_deck", "data_table"]).optional().describe("Only this type"),
+    status: tool.schema.enum(["pending", "generating", "ready", "failed"]).optional().describe("Only this status"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const artifacts = (await client.pollStudioStatus(notebookId))
+        .filter(a => (!args.type || a.type === args.type) && (!args.status || a.status === args.status))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return json({
+        notebook_id: notebookId,
+        artifacts: artifacts.map(a => ({ id: a.id, title: a.title, type: a.type, status: a.status, created_at: a.createdAt || null, url: a.url })),
+        count: artifacts.length,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const studio_delete = tool({
+  description: "Delete studio artifacts by ID.",
+  args: {
+    artifact_ids: tool.schema.string().describe("Comma-separated artifact IDs (from studio_list)"),
+    notebook_id: tool.schema.string().optional().describe("Notebook the artifacts belong to"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const artifactIds = args.artifact_ids.split(",").map(s => s.trim()).filter(Boolean);
+      if (artifactIds.length === 0) return json({ error: "No artifact IDs provided" });
+
+      const deleted: string[] = [];
+      const failed: { id: string; error: string }[] = [];
+      for (const artifactId of artifactIds) {
+        try {
+          if (await client.deleteStudioArtifact(notebookId, artifactId)) {
+            deleted.push(artifactId);
+            await removePendingTask(artifactId, "deleted");
+          } else {
+            failed.push({ id: artifactId, error: "Delete returned no result" });
+          }
+        } catch (e) {
+          failed.push({ id: artifactId, error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      return json({ deleted, failed, count: deleted.length });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+type MindMapFormat = "mermaid" | "outline" | "json";
+
+function renderMindMap(mindMap: MindMap, format: MindMapFormat = "mermaid"): unknown {
+  if (!mindMap.root) return null;
+  if (format === "json") return mindMap.root;
+  return format === "outline" ? formatMindMapOutline(mindMap.root) : formatMindMapMermaid(mindMap.root);
+}
+
+const MINDMAP_FORMAT = tool.schema.enum(["mermaid", "outline", "json"]).optional().describe("Rendering: mermaid mindmap block (default), Markdown outline, or node tree");
+
+const mindmap_create = tool({
+  description: "Generate a mind map from notebook sources and render it as Mermaid or a Markdown outline, optionally writing it to a file in the project.",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    source_ids: tool.schema.string().optional().describe("Comma-separated source IDs (default: all sources)"),
+    title: tool.schema.string().optional().describe("Mind map title"),
+    format: MINDMAP_FORMAT,
+    output_path: tool.schema.string().optional().describe("File path relative to the project, e.g. docs/mindmap.md"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const sourceIds = args.source_ids?.split(",").map(s => s.trim()).filter(Boolean);
+      // Checked before the mind map is created on the server
+      const path = args.output_path ? resolveProjectPath(args.output_path) : undefined;
+      const mindMap = await client.createMindMap(notebookId, sourceIds, args.title);
+      const rendered = renderMindMap(mindMap, args.format);
+      const result = { mind_map_id: mindMap.id, title: mindMap.title, nodes: mindMap.root ? countMindMapNodes(mindMap.root) : 0 };
+      if (!path) return json({ ...result, content: rendered });
+
+      mkdirSync(dirname(path), { recursive: true });
+      await Bun.write(path, typeof rendered === "string" ? rendered : json(rendered));
+      return json({ ...result, written: path });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const mindmap_list = tool({
+  description: "List saved mind maps of a notebook, or render one by ID.",
+  args: {
+    notebook_id: tool.schema.string().optional().describe("Notebook ID"),
+    mind_map_id: tool.schema.string().optional().describe("Render this mind map instead of listing"),
+    format: MINDMAP_FORMAT,
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const mindMaps = await client.listMindMaps(notebookId);
+
+      if (args.mind_map_id) {
+        const mindMap = mindMaps.find(m => m.id === args.mind_map_id);
+        if (!mindMap) return json({ error: AppError.notFound(`Mind map ${args.mind_map_id}`).toJSON() });
+        return json({ mind_map_id: mindMap.id, title: mindMap.title, content: renderMindMap(mindMap, args.format) });
+      }
+      return json({
+        notebook_id: notebookId,
+        mind_maps: mindMaps.map(m => ({ id: m.id, title: m.title, created_at: m.createdAt || null, nodes: m.root ? countMindMapNodes(m.root) : 0 })),
+        count: mindMaps.length,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const mindmap_delete = tool({
+  description: "Delete saved mind maps by ID.",
+  args: {
+    mind_map_ids: tool.schema.string().describe("Comma-separated mind map IDs (from mindmap_list)"),
+    notebook_id: tool.schema.string().optional().describe("Notebook the mind maps belong to"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const mindMapIds = args.mind_map_ids.split(",").map(s => s.trim()).filter(Boolean);
+      if (mindMapIds.length === 0) return json({ error: "No mind map IDs provided" });
+
+      const deleted: string[] = [];
+      const failed: { id: string; error: string }[] = [];
+      for (const mindMapId of mindMapIds) {
+        try {
+          if (await client.deleteMindMap(notebookId, mindMapId)) {
+            deleted.push(mindMapId);
+          } else {
+            failed.push({ id: mindMapId, error: "Delete returned no result" });
+          }
+        } catch (e) {
+          failed.push({ id: mindMapId, error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      return json({ deleted, failed, count: deleted.length });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+const task_list = tool({
+  description: "List research and studio tasks: active ones (including from earlier sessions) and history with outcomes.",
+  args: {
+    status: tool.schema.enum(["active", "finished", "all"]).optional().describe("Which tasks (default: all)"),
+    type: tool.schema.enum(["research", "studio"]).optional().describe("Only this task type"),
+    notebook_id: tool.schema.string().optional().describe("Only tasks of this notebook"),
+    limit: tool.schema.number().optional().describe("Max tasks (default: 20)"),
+  },
+  async execute(args) {
+    try {
+      const status = args.status || "all";
+      const tasks = listTasks()
+        .filter(t => status === "all" || (status === "active" ? !t.finishedAt : !!t.finishedAt))
+        .filter(t => (!args.type || t.type === args.type) && (!args.notebook_id || t.notebookId === args.notebook_id));
+      const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+      return json({
+        tasks: tasks.slice(0, args.limit || 20).map(t => ({
+          id: t.id,
+          type: t.type,
+          kind: t.kind ?? null,
+          label: t.label ?? null,
+          notebook_id: t.notebookId,
+          status: t.finishedAt ? "finished" : t.status,
+          outcome: t.outcome ?? null,
+          started_at: iso(t.startedAt),
+          finished_at: iso(t.finishedAt),
+          duration_s: Math.round(((t.finishedAt ?? Date.now()) - t.startedAt) / 1000),
+          ...(t.error && { error: t.error }),
+        })),
+        count: tasks.length,
+      });
+    } catch (e) {
+      if (e instanceof AppError) return json({ error: e.toJSON() });
+      return json({ error: { message: String(e), code: "UNKNOWN" } });
+    }
+  },
+});
+
+// Filesystem-safe name fragment: "My Notebook: Q&A" -> "my-notebook-q-a"
+function slugify(text: string): string {
+  return text.toLowerCase().normalize("NFKD").replace(/[^\w]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+}
+
+const studio_download = tool({
+  description: "Download ready studio artifacts into the project (audio .m4a/.mp3, report .md, data table .csv, slide deck .pdf, video .mp4, infographic .png).",
+  args: {
+    artifact_ids: tool.schema.string().describe("Comma-separated artifact IDs (from studio_list)"),
+    notebook_id: tool.schema.string().optional().describe("Notebook the artifacts belong to"),
+    output_dir: tool.schema.string().optional().describe("Directory relative to the project (default: notebooklm)"),
+  },
+  async execute(args) {
+    try {
+      const client = await getClient();
+      const notebookId = args.notebook_id || getState().notebookId;
+      if (!notebookId) return json({ error: "No notebook" });
+      const artifactIds = args.artifact_ids.split(",").map(s => s.trim()).filter(Boolean);
+      if (artifactIds.length === 0) return json({ error: "No artifact IDs provided" });
+
+      const dir = resolveProjectPath(args.output_dir || "notebooklm");
+      const notebook = await client.getNotebookInfo(notebookId);
+      const notebookSlug = slugify(notebook?.title || "") || notebookId;
+
+      const downloaded: { id: string; type: string; path: string; bytes: number }[] = [];
+      const failed: { id: string; error: string }[] = [];
+      for (const artifactId of artifactIds) {
+        try {
+          const { artifact, data, extension } = await client.downloadStudioArtifact(notebookId, artifactId);
+          const name = slugify(artifact.title || "") || `${artifact.type}-${artifact.id.slice(0, 8)}`;
+          const path = resolve(dir, `${notebookSlug}-${name}.${extension}`);
+          mkdirSync(dirname(path), { recursive: true });
+          const bytes = await Bun.write(path, data);
+          downloaded.push({ id: artifactId, type: artifact.type, path, bytes });
+        } catch (e) {
+          failed.push({ id: artifactId, error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      return json({ downloaded, failed, count: downloaded.length });
     } catch (e) {
       if (e instanceof AppError) return json({ error: e.toJSON() });
       return json({ error: { message: String(e), code: "UNKNOWN" } });
@@ -231,14 +1018,14 @@ const save_auth_tokens = tool({
   },
 });
 
-import { hooks as pluginHooks, setPluginContext } from './hooks';
+import { hooks as pluginHooks, setPluginContext, showToast, resolveProjectPath } from './hooks';
 
-export default async function plugin(ctx: { client: unknown }) {
+export default async function plugin(ctx: { client: unknown; directory?: string }) {
   // Set plugin context for hooks to use
   setPluginContext(ctx as Parameters<typeof setPluginContext>[0]);
   
   return {
-    tool: { notebook_list, notebook_query, notebook_get, notebook_create, source_add, research_start, studio_create, save_auth_tokens },
+    tool: { notebook_list, notebook_query, conversation_list, conversation_get, conversation_clear, conversation_export, notebook_get, notebook_create, notebook_rename, notebook_delete, source_add, source_list, source_get, source_delete, research_start, research_status, research_import, studio_create, studio_list, studio_delete, studio_download, mindmap_create, mindmap_list, mindmap_delete, task_list, save_auth_tokens },
     ...pluginHooks,
   };
 }
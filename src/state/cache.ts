@@ -69,7 +69,10 @@ export function clear(): void {
 export const key = {
   notebooks: () => "nbs",
   notebook: (id: string) => `nb:${id}`,
+  // Under the notebook key, so invalidating the notebook drops it too
+  sourceIds: (nbId: string) => `nb:${nbId}:src`,
   source: (id: string) => `src:${id}`,
+  sourceContent: (id: string) => `srcc:${id}`,
   query: (nbId: string, q: string) => `q:${nbId}:${hash(q)}`,
 };
 
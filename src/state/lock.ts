@@ -0,0 +1,68 @@
+/**
+ * File locks
+ *
+ * Several OpenCode sessions share the files under ~/.notebooklm-mcp. A
+ * read-modify-write holds `<file>.lock`, created exclusively (`wx`), so one
+ * session's changes are not overwritten by another's. A lock left behind by
+ * a crashed process is removed once it is older than STALE_LOCK_MS.
+ * Waiting for a held lock sleeps asynchronously, so it never blocks the
+ * plugin's event loop.
+ */
+
+import { dirname } from "node:path";
+import { closeSync, existsSync, mkdirSync, openSync, statSync, unlinkSync, writeSync } from "node:fs";
+
+// A holder only reads and writes one small file; older locks are abandoned
+const STALE_LOCK_MS = 10_000;
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 20;
+
+function tryAcquire(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx");
+    try {
+      writeSync(fd, String(process.pid));
+    } finally {
+      closeSync(fd);
+    }
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw e;
+  }
+}
+
+function removeIfStale(lockPath: string): void {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) unlinkSync(lockPath);
+  } catch {
+    // Released or removed by another process meanwhile
+  }
+}
+
+/**
+ * Run `fn` while holding the lock for `path`; throws if the lock is not
+ * acquired within LOCK_TIMEOUT_MS
+ */
+export async function withFileLock<T>(path: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!tryAcquire(lockPath)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    removeIfStale(lockPath);
+    await Bun.sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    try { unlinkSync(lockPath); } catch { /* already gone */ }
+  }
+}
@@ -2,9 +2,16 @@
  * Enhanced Session State with context inference
  */
 
+import { Config } from '../config';
+import { saveTask, finishTask, loadActiveTasks, listTasks, findTask, setReportSource, type TaskOutcome } from './tasks';
+
 export interface PendingTask {
   id: string;
   type: 'research' | 'studio';
+  // research_fast / research_deep or the studio type; selects the lifetime
+  kind?: string | undefined;
+  // Research query or studio focus, for task_list
+  label?: string | undefined;
   notebookId: string;
   status: 'pending' | 'processing' | 'complete' | 'error';
   startedAt: number;
@@ -12,6 +19,8 @@ export interface PendingTask {
   retryCount?: number;
   result?: unknown;
   error?: string;
+  // Source the research report was added as (research_status add_as_source)
+  reportSourceId?: string | undefined;
 }
 
 export interface SessionState {
@@ -123,7 +132,7 @@ export function getConversation(): {
 /**
  * Add pending task
  */
-export function addPendingTask(task: PendingTask): void {
+export async function addPendingTask(task: PendingTask): Promise<void> {
   const existing = state.pendingTasks.findIndex(t => t.id === task.id);
   if (existing >= 0) {
     state.pendingTasks[existing] = task;
@@ -131,28 +140,79 @@ export function addPendingTask(task: PendingTask): void {
     state.pendingTasks.push(task);
   }
   updateState({ pendingTasks: [...state.pendingTasks] });
+  await saveTask(task);
 }
 
 /**
  * Update pending task status
  */
-export function updatePendingTask(
+export async function updatePendingTask(
   taskId: string,
   updates: Partial<PendingTask>
-): void {
+): Promise<void> {
   const task = state.pendingTasks.find(t => t.id === taskId);
   if (task) {
     Object.assign(task, updates, { lastCheckedAt: Date.now() });
     updateState({ pendingTasks: [...state.pendingTasks] });
+    await saveTask(task);
   }
 }
 
 /**
- * Remove pending task
+ * Remove pending task, recording its outcome in the task history
  */
-export function removePendingTask(taskId: string): void {
+export async function removePendingTask(taskId: string, outcome: TaskOutcome = 'completed', error?: string): Promise<void> {
   const filtered = state.pendingTasks.filter(t => t.id !== taskId);
   updateState({ pendingTasks: filtered });
+  await finishTask(taskId, outcome, error);
+}
+
+/**
+ * Source a research task's report was already added as, if any
+ */
+export function getReportSource(taskId: string): string | undefined {
+  return state.pendingTasks.find(t => t.id === taskId)?.reportSourceId ?? findTask(taskId)?.reportSourceId;
+}
+
+/**
+ * Record that a research task's report was added as a source
+ */
+export async function recordReportSource(taskId: string, notebookId: string, sourceId: string): Promise<void> {
+  const task = state.pendingTasks.find(t => t.id === taskId);
+  if (task) task.reportSourceId = sourceId;
+  await setReportSource(taskId, notebookId, sourceId);
+}
+
+/**
+ * Load unfinished tasks persisted by earlier sessions; returns how many
+ */
+export function resumePendingTasks(): number {
+  const known = new Set(state.pendingTasks.map(t => t.id));
+  const resumed = loadActiveTasks().filter(t => !known.has(t.id));
+  if (resumed.length > 0) {
+    updateState({ pendingTasks: [...state.pendingTasks, ...resumed] });
+  }
+  return resumed.length;
+}
+
+/**
+ * Drop tasks another session has finished since this one loaded them;
+ * returns the dropped IDs
+ */
+export function syncPendingTasks(): string[] {
+  const finished = new Set(listTasks().filter(t => t.finishedAt).map(t => t.id));
+  const dropped = state.pendingTasks.filter(t => finished.has(t.id)).map(t => t.id);
+  if (dropped.length > 0) {
+    updateState({ pendingTasks: state.pendingTasks.filter(t => !finished.has(t.id)) });
+  }
+  return dropped;
+}
+
+/**
+ * Whether a task is finished in the shared store, e.g. by another session
+ */
+export function isTaskFinished(taskId: string): boolean {
+  return Boolean(findTask(taskId)?.finishedAt);
 }
 
 /**
@@ -181,7 +241,7 @@ export function isAuthRecent(maxAgeMs: number = 5 * 60 * 1000): boolean {
  * Reset state
  */
 export function reset(): void {
-  state = { ...defaultState, sessionStartedAt: Date.now() };
+  state = { ...defaultState, pendingTasks: [], sessionStartedAt: Date.now() };
 }
 
 /**
@@ -214,16 +274,24 @@ export function getContextSummary(): string {
 }
 
 /**
- * Cleanup stale pending tasks (older than maxAgeMs)
+ * Lifetime of a task before polling gives up on it
  */
-export function cleanupStaleTasks(maxAgeMs: number = 10 * 60 * 1000): number {
+export function taskLifetime(task: PendingTask): number {
+  const lifetimes: Record<string, number> = Config.TASK_LIFETIMES;
+  return (task.kind && lifetimes[task.kind]) || lifetimes[task.type] || Config.TASK_LIFETIMES.studio;
+}
+
+/**
+ * Cleanup stale pending tasks (older than maxAgeMs, or their per-type lifetime)
+ */
+export async function cleanupStaleTasks(maxAgeMs?: number): Promise<number> {
   const now = Date.now();
-  const before = state.pendingTasks.length;
-  const filtered = state.pendingTasks.filter(t => now - t.startedAt < maxAgeMs);
-  
-  if (filtered.length !== before) {
-    updateState({ pendingTasks: filtered });
+  const stale = state.pendingTasks.filter(t => now - t.startedAt >= (maxAgeMs ?? taskLifetime(t)));
+
+  for (const task of stale) {
+    // Completed research only waited for an import
+    await removePendingTask(task.id, task.status === 'complete' ? 'completed' : 'expired');
   }
-  
-  return before - filtered.length;
+
+  return stale.length;
 }
@@ -0,0 +1,141 @@
+/**
+ * Task persistence
+ *
+ * Research and studio tasks can outlive an OpenCode session, so they are
+ * kept in ~/.notebooklm-mcp/tasks.json. Active tasks are resumed by the next
+ * session; finished tasks stay as history with their outcome. Writes follow
+ * the conversation store: lock, re-read, merge, replace atomically.
+ */
+
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import type { PendingTask } from "./session";
+import { withFileLock } from "./lock";
+
+export type TaskOutcome = 'completed' | 'failed' | 'imported' | 'deleted' | 'expired';
+
+export interface TaskRecord extends PendingTask {
+  finishedAt?: number | undefined;
+  outcome?: TaskOutcome | undefined;
+}
+
+interface TasksFile {
+  version: 1;
+  tasks: TaskRecord[];
+}
+
+// Oldest finished tasks are dropped beyond this
+export const MAX_TASK_HISTORY = 100;
+
+let tasksPath = join(homedir(), ".notebooklm-mcp", "tasks.json");
+
+/**
+ * Override the storage file (for testing)
+ */
+export function setTasksPath(path: string): void {
+  tasksPath = path;
+}
+
+function readTasks(): TaskRecord[] {
+  try {
+    const data = JSON.parse(readFileSync(tasksPath, "utf-8")) as TasksFile;
+    if (data && Array.isArray(data.tasks)) return data.tasks;
+  } catch {
+    // Missing or invalid file
+  }
+  return [];
+}
+
+function writeTasksAtomic(tasks: TaskRecord[]): void {
+  const dir = dirname(tasksPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  const tmp = `${tasksPath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    writeFileSync(tmp, JSON.stringify({ version: 1, tasks } satisfies TasksFile, null, 2));
+    renameSync(tmp, tasksPath);
+  } catch (e) {
+    try { unlinkSync(tmp); } catch { /* already gone */ }
+    throw e;
+  }
+}
+
+async function updateTasks(mutate: (tasks: TaskRecord[]) => TaskRecord[]): Promise<void> {
+  try {
+    await withFileLock(tasksPath, () => {
+      const tasks = mutate(readTasks());
+      const active = tasks.filter(t => !t.finishedAt);
+      const history = tasks
+        .filter(t => t.finishedAt)
+        .sort((a, b) => (b.finishedAt ?? 0) - (a.finishedAt ?? 0))
+        .slice(0, MAX_TASK_HISTORY);
+      writeTasksAtomic([...active, ...history]);
+    });
+  } catch {
+    // Persistence is best-effort; in-memory state still tracks the task
+  }
+}
+
+/**
+ * Insert or replace an active task
+ */
+export function saveTask(task: PendingTask): Promise<void> {
+  return updateTasks(tasks => [...tasks.filter(t => t.id !== task.id), { ...task }]);
+}
+
+/**
+ * Move a task to history with its outcome
+ */
+export function finishTask(taskId: string, outcome: TaskOutcome, error?: string): Promise<void> {
+  return updateTasks(tasks => tasks.map(t =>
+    t.id === taskId && !t.finishedAt
+      ? { ...t, finishedAt: Date.now(), outcome, ...(error && { error }) }
+      : t
+  ));
+}
+
+/**
+ * Store the source a task's research report was added as. A task that was
+ * never stored (e.g. started in another workspace) is kept as finished research.
+ */
+export function setReportSource(taskId: string, notebookId: string, sourceId: string): Promise<void> {
+  return updateTasks(tasks => {
+    if (tasks.some(t => t.id === taskId)) {
+      return tasks.map(t => (t.id === taskId ? { ...t, reportSourceId: sourceId } : t));
+    }
+    const now = Date.now();
+    return [...tasks, {
+      id: taskId,
+      type: 'research',
+      notebookId,
+      status: 'complete',
+      startedAt: now,
+      finishedAt: now,
+      outcome: 'completed',
+      reportSourceId: sourceId,
+    }];
+  });
+}
+
+/**
+ * A stored task, active or finished
+ */
+export function findTask(taskId: string): TaskRecord | undefined {
+  return readTasks().find(t => t.id === taskId);
+}
+
+/**
+ * All stored tasks, newest first
+ */
+export function listTasks(): TaskRecord[] {
+  return readTasks().sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Tasks that have not finished yet (to resume polling)
+ */
+export function loadActiveTasks(): PendingTask[] {
+  return readTasks().filter(t => !t.finishedAt);
+}
@@ -11,6 +11,8 @@ export interface AuthTokens {
   csrfToken: string;
   sessionId: string;
   extractedAt: number;
+  // Frontend build label (cfb2h) read from the NotebookLM page
+  backendLabel?: string | undefined;
 }
 
 export const REQUIRED_COOKIES = ["SID", "HSID", "SSID", "APISID", "SAPISID"] as const;
@@ -67,12 +69,45 @@ export interface SourceContent {
 export interface QueryResult {
   answer: string;
   conversationId: string | null;
+  turnId: string | null;
+  citations: Citation[];
+}
+
+export interface Citation {
+  number: number;
+  sourceId: string | null;
+  sourceTitle: string | null;
+  passage: string | null;
+  answerSpan: { start: number; end: number } | null;
 }
 
 export interface ConversationTurn {
   query: string;
   answer: string;
   turnNumber: number;
+  // Absent on turns saved by older versions
+  createdAt?: string | undefined;
+  sourceIds?: string[] | undefined;
+  // Server-issued turn ID, when the stream provided one
+  turnId?: string | undefined;
+}
+
+export interface ConversationRecord {
+  id: string;
+  notebookId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  sourceIds: string[];
+  turns: ConversationTurn[];
+}
+
+export interface ConversationSummary {
+  conversationId: string;
+  notebookId: string | null;
+  turnCount: number;
+  firstQuery: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================================================
@@ -97,6 +132,22 @@ export interface DiscoveredSource {
   type: string;
 }
 
+export interface ResearchImportPolicy {
+  // Hostnames; subdomains match too. Empty allowlist allows every domain
+  allowDomains: string[];
+  blockDomains: string[];
+  // DiscoveredSource types to keep; empty keeps every type
+  types: string[];
+  maxCount?: number | undefined;
+  // Skip URLs already present in the notebook
+  skipExisting: boolean;
+}
+
+export interface ResearchImportPlan {
+  accepted: DiscoveredSource[];
+  skipped: { index: number; title: string; url?: string | undefined; reason: string }[];
+}
+
 // ============================================================================
 // Studio Types (Audio/Video/Infographic/etc)
 // ============================================================================
@@ -114,12 +165,96 @@ export type SlideDeckLength = "short" | "default";
 export type ReportFormat = "Briefing Doc" | "Study Guide" | "Blog Post" | "Create Your Own";
 export type FlashcardDifficulty = "easy" | "medium" | "hard";
 
+// Per-artifact creation options (omitted fields use NotebookLM defaults)
+export interface AudioOptions {
+  format?: AudioFormat | undefined;
+  length?: AudioLength | undefined;
+  focusPrompt?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface VideoOptions {
+  format?: VideoFormat | undefined;
+  style?: VideoStyle | undefined;
+  focusPrompt?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface InfographicOptions {
+  orientation?: InfographicOrientation | undefined;
+  detail?: InfographicDetail | undefined;
+  focusPrompt?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface SlideDeckOptions {
+  format?: SlideDeckFormat | undefined;
+  length?: SlideDeckLength | undefined;
+  focusPrompt?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface ReportOptions {
+  format?: ReportFormat | undefined;
+  // Used with "Create Your Own"
+  customPrompt?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface FlashcardOptions {
+  difficulty?: FlashcardDifficulty | undefined;
+}
+
+export interface QuizOptions {
+  difficulty?: FlashcardDifficulty | undefined;
+}
+
+export interface DataTableOptions {
+  description?: string | undefined;
+  language?: string | undefined;
+}
+
+export interface StudioOptionsMap {
+  audio: AudioOptions;
+  video: VideoOptions;
+  infographic: InfographicOptions;
+  slide_deck: SlideDeckOptions;
+  report: ReportOptions;
+  flashcards: FlashcardOptions;
+  quiz: QuizOptions;
+  data_table: DataTableOptions;
+}
+
+export type StudioCreateType = keyof StudioOptionsMap;
+
 export interface StudioArtifact {
   id: string;
+  title?: string | undefined;
   type: StudioType;
   status: "pending" | "generating" | "ready" | "failed";
   url?: string | undefined;
   createdAt: string;
+  // Report markdown / data table rows, when generated
+  content?: string | undefined;
+  rows?: string[][] | undefined;
+}
+
+export interface MindMapNode {
+  name: string;
+  children: MindMapNode[];
+}
+
+export interface MindMap {
+  id: string;
+  title: string;
+  createdAt: string;
+  root: MindMapNode | null;
+}
+
+export interface StudioDownload {
+  artifact: StudioArtifact;
+  data: Uint8Array | string;
+  extension: string;
 }
 
 // ============================================================================
@@ -226,6 +361,7 @@ export const CONSTANTS = {
   FLASHCARD_DIFFICULTY_EASY: 1,
   FLASHCARD_DIFFICULTY_MEDIUM: 2,
   FLASHCARD_DIFFICULTY_HARD: 3,
+  FLASHCARD_COUNT_DEFAULT: 2,
 
   // Chat goals
   CHAT_GOAL_DEFAULT: 1,
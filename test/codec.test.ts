@@ -0,0 +1,151 @@
+/**
+ * Codec Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { decodeNotebook, decodeQueryResponse, decodeStudioArtifacts, decodeMindMaps, QueryStreamDecoder } from "../src/client/codec";
+import { AppError } from "../src/errors";
+
+/** Build a length-prefixed GenerateFreeFormStreamed body from inner payloads */
+function streamBody(...payloads: unknown[]): string {
+  const frames = payloads.map((p) => {
+    const line = JSON.stringify([["wrb.fr", null, JSON.stringify(p)]]);
+    return `${line.length}\n${line}`;
+  });
+  return `)]}'\n\n${frames.join("\n")}\n`;
+}
+
+describe("Codec", () => {
+  test("decodeNotebook unwraps notebook and reads source metadata", () => {
+    const raw = [[
+      "My Notebook",
+      [
+        [["src-1"], "Article", [null, null, null, null, 5, null, null, ["https://example.com"]]],
+        [["src-2"], "Notes", [null, null, null, null, 4]],
+        [["src-3"]],
+      ],
+      "nb-1",
+    ]];
+
+    const nb = decodeNotebook(raw);
+    expect(nb?.title).toBe("My Notebook");
+    expect(nb?.sources).toEqual([
+      { id: "src-1", title: "Article", type: "web", url: "https://example.com" },
+      { id: "src-2", title: "Notes", type: "pasted_text", url: undefined },
+      { id: "src-3", title: "Untitled", type: undefined, url: undefined },
+    ]);
+  });
+
+  test("decodeNotebook returns null for empty response", () => {
+    expect(decodeNotebook(null)).toBeNull();
+  });
+
+  test("decodeQueryResponse keeps the longest answer and its citations", () => {
+    const answer = "Hooks let you use state [1]. Effects sync with systems [2, 3].";
+    const cite = (sourceId: string, passage: string) =>
+      [["chunk"], [null, null, 0.9, [[0, 10]], [[[0, 10, [[[0, 10, passage]]]]]], [[[sourceId]]]]];
+    const body = streamBody(
+      [["Thinking about the question at hand...", null, null, null, [2]]],
+      [["Hooks let you use state [1].", null, null, null, [null, null, null, [], 1]]],
+      [[answer, null, null, null, [null, null, null, [cite("src-a", "useState adds state"), cite("src-b", "useEffect syncs"), cite("src-a", "cleanup runs")], 1]]],
+    );
+
+    const result = decodeQueryResponse(body);
+    expect(result.answer).toBe(answer);
+    expect(result.citations.map((c) => [c.number, c.sourceId, c.passage])).toEqual([
+      [1, "src-a", "useState adds state"],
+      [2, "src-b", "useEffect syncs"],
+      [3, "src-a", "cleanup runs"],
+    ]);
+    const span = result.citations[1]!.answerSpan!;
+    expect(answer.slice(span.start, span.end)).toBe("[2, 3]");
+  });
+
+  test("decodeQueryResponse throws AUTH_EXPIRED on RPC error 16", () => {
+    const line = JSON.stringify([["wrb.fr", null, null, null, null, [16], "generic"]]);
+    expect(() => decodeQueryResponse(`)]}'\n${line.length}\n${line}\n`)).toThrow(/RPC Error 16/);
+    try {
+      decodeQueryResponse(`)]}'\n${line.length}\n${line}\n`);
+    } catch (e) {
+      expect(e).toBeInstanceOf(AppError);
+      expect((e as AppError).code).toBe("AUTH_EXPIRED");
+    }
+  });
+
+  test("QueryStreamDecoder decodes frames split across pushes", () => {
+    const body = streamBody(
+      [["Considering the sources provided here...", null, null, null, [2]]],
+      [["React hooks are functions that let you", null, null, null, [1]]],
+      [["React hooks are functions that let you use state in components.", null, null, null, [1]]],
+    );
+    const answers: string[] = [];
+    const thoughts: string[] = [];
+    const decoder = new QueryStreamDecoder({
+      onAnswer: (text) => answers.push(text),
+      onThinking: (text) => thoughts.push(text),
+    });
+
+    for (let i = 0; i < body.length; i += 7) decoder.push(body.slice(i, i + 7));
+
+    expect(thoughts).toEqual(["Considering the sources provided here..."]);
+    expect(answers).toHaveLength(2);
+    expect(decoder.finish().answer).toBe(decodeQueryResponse(body).answer);
+  });
+
+  test("decodeQueryResponse reads server conversation and turn IDs", () => {
+    const body = streamBody(
+      [["An answer that is long enough to count.", null, ["conv-server", "turn-1"], null, [1]]],
+      [[null, null, ["conv-server", "turn-2"]]],
+    );
+
+    const result = decodeQueryResponse(body);
+    expect(result.conversationId).toBe("conv-server");
+    expect(result.turnId).toBe("turn-2");
+  });
+
+  test("decodeStudioArtifacts reads type, status, url and created time", () => {
+    const audio: unknown[] = ["art-1", "Deep Dive", 1, [], 3];
+    audio[6] = [null, null, null, "https://lh3.googleusercontent.com/audio.m4a"];
+    audio[15] = [1767225600];
+    const report: unknown[] = ["art-2", "Briefing", 2, [], 1];
+
+    expect(decodeStudioArtifacts([[audio, report]])).toEqual([
+      { id: "art-1", title: "Deep Dive", type: "audio", status: "ready", url: "https://lh3.googleusercontent.com/audio.m4a", createdAt: "2026-01-01T00:00:00.000Z" },
+      { id: "art-2", title: "Briefing", type: "report", status: "generating", url: undefined, createdAt: "" },
+    ]);
+  });
+
+  test("decodeStudioArtifacts reads inline report, table and slide deck output", () => {
+    const report: unknown[] = ["art-1", "Briefing", 2, [], 3];
+    report[7] = [null, ["Briefing Doc", "Short description", null, null, "en"], ["# Briefing\n\nLong markdown body of the report."]];
+    const table: unknown[] = ["art-2", "Pricing", 9, [], 3];
+    table[18] = [null, ["Compare prices", "en"], [[["Plan", "Price"], ["Basic", 10], ["Pro", null]]]];
+    const slides: unknown[] = ["art-3", "Deck", 8, [], 3];
+    slides[16] = [[["https://lh3.googleusercontent.com/slide-1.png"]], "https://lh3.googleusercontent.com/deck.pdf"];
+
+    const [r, t, d] = decodeStudioArtifacts([[report, table, slides]]);
+    expect(r?.content).toBe("# Briefing\n\nLong markdown body of the report.");
+    expect(t?.rows).toEqual([["Plan", "Price"], ["Basic", "10"], ["Pro", ""]]);
+    expect(d?.url).toBe("https://lh3.googleusercontent.com/deck.pdf");
+  });
+
+  test("decodeMindMaps parses saved trees and skips deleted entries", () => {
+    const tree = JSON.stringify({ name: "React", children: [{ name: "Hooks", children: [{ name: "useState" }] }, { name: 42 }] });
+    const result = [[
+      ["mm-1", ["mm-1", tree, [2, null, [1767225600, 0]], null, "React map"]],
+      ["mm-2", null],
+    ]];
+
+    expect(decodeMindMaps(result)).toEqual([{
+      id: "mm-1",
+      title: "React map",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      root: {
+        name: "React",
+        children: [
+          { name: "Hooks", children: [{ name: "useState", children: [] }] },
+          { name: "", children: [] },
+        ],
+      },
+    }]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Conversation Tests
+ */
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  setConversationsDir,
+  appendConversationTurn,
+  loadConversation,
+  listConversations,
+  deleteConversation,
+  renameConversation,
+  formatConversationMarkdown,
+  MAX_TURNS_PER_CONVERSATION,
+} from "../src/client/conversations";
+
+const root = mkdtempSync(join(tmpdir(), "nlm-conversations-"));
+let dir = root;
+
+describe("Conversations", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(root, "case-"));
+    setConversationsDir(dir);
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("appendConversationTurn stores turns per notebook with metadata", async () => {
+    await appendConversationTurn("conv-1", "nb-1", { query: "What is X?", answer: "X.", sourceIds: ["s1"] });
+    await appendConversationTurn("conv-1", "nb-1", { query: "And Y?", answer: "Y.", sourceIds: ["s1", "s2"] });
+    await appendConversationTurn("conv-2", "nb-2", { query: "Z?", answer: "Z.", sourceIds: [] });
+
+    const record = await loadConversation("conv-1");
+    expect(record?.notebookId).toBe("nb-1");
+    expect(record?.turns.map((t) => t.turnNumber)).toEqual([1, 2]);
+    expect(record?.sourceIds).toEqual(["s1", "s2"]);
+    expect(record?.createdAt).toBeTruthy();
+
+    expect(await listConversations("nb-1")).toHaveLength(1);
+    expect(await listConversations()).toHaveLength(2);
+    expect(readdirSync(dir).sort()).toEqual(["nb-1.json", "nb-2.json"]);
+  });
+
+  test("caps conversation length by evicting oldest turns", async () => {
+    for (let i = 0; i < MAX_TURNS_PER_CONVERSATION + 3; i++) {
+      await appendConversationTurn("conv-1", "nb-1", { query: `q${i}`, answer: `a${i}`, sourceIds: [] });
+    }
+
+    const turns = (await loadConversation("conv-1", "nb-1"))!.turns;
+    expect(turns).toHaveLength(MAX_TURNS_PER_CONVERSATION);
+    expect(turns[0]!.query).toBe("q3");
+    expect(turns[turns.length - 1]!.turnNumber).toBe(MAX_TURNS_PER_CONVERSATION + 3);
+  });
+
+  test("renameConversation re-keys history under the server ID", async () => {
+    await appendConversationTurn("local-id", "nb-1", { query: "q1", answer: "a1", sourceIds: [] });
+
+    expect(await renameConversation("local-id", "server-id")).toBe(true);
+    await appendConversationTurn("server-id", "nb-1", { query: "q2", answer: "a2", sourceIds: [], turnId: "t2" });
+
+    expect(await loadConversation("local-id")).toBeNull();
+    const record = (await loadConversation("server-id", "nb-1"))!;
+    expect(record.turns.map((t) => t.query)).toEqual(["q1", "q2"]);
+    expect(record.turns[1]!.turnId).toBe("t2");
+  });
+
+  test("renameConversation merges into an existing conversation within the turn cap", async () => {
+    for (let i = 0; i < MAX_TURNS_PER_CONVERSATION; i++) {
+      await appendConversationTurn("server-id", "nb-1", { query: `s${i}`, answer: "a", sourceIds: ["s1"] });
+    }
+    await appendConversationTurn("local-id", "nb-1", { query: "l0", answer: "a", sourceIds: ["s2"] });
+
+    expect(await renameConversation("local-id", "server-id", "nb-1")).toBe(true);
+    const record = (await loadConversation("server-id", "nb-1"))!;
+    expect(record.turns).toHaveLength(MAX_TURNS_PER_CONVERSATION);
+    expect(record.turns.at(-1)!.query).toBe(`s${MAX_TURNS_PER_CONVERSATION - 1}`);
+    expect(record.sourceIds.sort()).toEqual(["s1", "s2"]);
+  });
+
+  test("deleteConversation removes the record and empty files", async () => {
+    await appendConversationTurn("conv-1", "nb-1", { query: "q", answer: "a", sourceIds: [] });
+
+    expect(await deleteConversation("conv-1")).toBe(true);
+    expect(await deleteConversation("conv-1")).toBe(false);
+    expect(await loadConversation("conv-1")).toBeNull();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test("concurrent sessions keep each other's conversations in the same notebook", async () => {
+    const module = join(import.meta.dir, "../src/client/conversations.ts");
+    const session = (conversationId: string) => Bun.spawn([
+      process.execPath, "-e",
+      `const c = await import(${JSON.stringify(module)});
+       c.setConversationsDir(${JSON.stringify(dir)});
+       for (let i = 0; i < 20; i++) await c.appendConversationTurn(${JSON.stringify(conversationId)}, "nb-1", { query: "q" + i, answer: "a", sourceIds: [] });`,
+    ]);
+    const exits = await Promise.all([session("conv-a"), session("conv-b")].map((p) => p.exited));
+
+    expect(exits).toEqual([0, 0]);
+    expect((await loadConversation("conv-a", "nb-1"))?.turns).toHaveLength(20);
+    expect((await loadConversation("conv-b", "nb-1"))?.turns).toHaveLength(20);
+    expect(readdirSync(dir)).toEqual(["nb-1.json"]);
+  });
+
+  test("formatConversationMarkdown renders each turn", () => {
+    const markdown = formatConversationMarkdown({
+      id: "conv-1",
+      notebookId: "nb-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:05:00.000Z",
+      sourceIds: [],
+      turns: [
+        { query: "What is X?", answer: "X is a thing.", turnNumber: 1, createdAt: "2026-01-01T00:00:00.000Z" },
+        { query: "And Y?", answer: "Y too.", turnNumber: 2 },
+      ],
+    });
+
+    expect(markdown).toContain("`conv-1`");
+    expect(markdown).toContain("https://notebooklm.google.com/notebook/nb-1");
+    expect(markdown).toContain("## 1. What is X? (2026-01-01T00:00:00.000Z)");
+    expect(markdown).toContain("## 2. And Y?\n\nY too.");
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * End-to-End Tests: plugin tools against the fake NotebookLM server
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import plugin from "../src/index";
+import { setBaseUrl, RPC_IDS } from "../src/config";
+import { AuthManager } from "../src/auth/manager";
+import { getCachePath, saveTokensToCache, setTokensPath } from "../src/auth/tokens";
+import { resetClient } from "../src/client";
+import { RateLimiter, setRateLimiter } from "../src/client/rate-limiter";
+import { setConversationsDir } from "../src/client/conversations";
+import { setTasksPath } from "../src/state/tasks";
+import * as session from "../src/state/session";
+import * as cache from "../src/state/cache";
+import { FakeNotebookLM, QUERY_RPC } from "./fake-server";
+
+const dir = mkdtempSync(join(tmpdir(), "nlm-e2e-"));
+const originalTokensPath = getCachePath();
+const server = new FakeNotebookLM({ pollsUntilReady: 0 });
+
+let tools: Awaited<ReturnType<typeof plugin>>["tool"];
+
+async function run(name: keyof typeof tools, args: Record<string, unknown> = {}): Promise<any> {
+  const result = await (tools[name].execute as (args: unknown, ctx: unknown) => Promise<string>)(args, {});
+  return JSON.parse(result);
+}
+
+/** Requests the server saw while `action` ran */
+async function requestsDuring(action: () => Promise<unknown>) {
+  const start = server.requests.length;
+  await action();
+  return server.requests.slice(start);
+}
+
+describe("plugin against fake NotebookLM", () => {
+  let notebookId: string;
+
+  beforeAll(async () => {
+    setBaseUrl(server.start());
+    setTokensPath(join(dir, "auth.json"));
+    setTasksPath(join(dir, "tasks.json"));
+    setConversationsDir(join(dir, "conversations"));
+    setRateLimiter(new RateLimiter({ global: { capacity: Infinity, refillMs: 1 }, budgets: {} }));
+    session.reset();
+    cache.clear();
+    AuthManager.clearInstance();
+    resetClient();
+
+    saveTokensToCache({
+      cookies: server.cookies(),
+      csrfToken: server.csrfToken,
+      sessionId: server.sessionId,
+      extractedAt: Date.now() / 1000,
+    }, true);
+    tools = (await plugin({ client: null, directory: dir })).tool;
+
+    notebookId = server.addNotebook("Seeded").id;
+    server.addSource(notebookId, { title: "Photosynthesis", text: "Plants turn light into sugar.\n\nChlorophyll absorbs light." });
+  });
+
+  afterAll(() => {
+    server.stop();
+    setBaseUrl();
+    setTokensPath(originalTokensPath);
+    setRateLimiter(null);
+    AuthManager.clearInstance();
+    resetClient();
+    cache.clear();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("notebooks: create, list, rename, delete", async () => {
+    const created = await run("notebook_create", { title: "Scratch" });
+    expect(created.error).toBeUndefined();
+    const id = created.created.id;
+    expect(server.notebooks.get(id)?.title).toBe("Scratch");
+
+    const listed = await run("notebook_list");
+    expect(listed.notebooks.map((n: { id: string }) => n.id)).toContain(id);
+
+    expect((await run("notebook_rename", { notebook_id: id, title: "Renamed" })).renamed.title).toBe("Renamed");
+    expect(server.notebooks.get(id)?.title).toBe("Renamed");
+
+    const deleted = await run("notebook_delete", { notebook_id: id, confirm_title: "Renamed" });
+    expect(deleted.deleted.id).toBe(id);
+    expect(server.notebooks.has(id)).toBe(false);
+  });
+
+  test("sources: add, list with guides, read, delete", async () => {
+    const text = await run("source_add", { notebook_id: notebookId, text: "Notes on the Calvin cycle.", title: "Calvin" });
+    const urls = await run("source_add", { notebook_id: notebookId, urls: "https://example.com/a https://example.org/b" });
+    expect(text.added.title).toBe("Calvin");
+    expect(urls.count).toBe(2);
+
+    const listed = await run("source_list", { notebook_id: notebookId, include_guides: true });
+    expect(listed.count).toBe(4);
+    const web = listed.sources.find((s: { url?: string }) => s.url === "https://example.org/b");
+    expect(web.type).toBe("web");
+    expect(web.summary).toContain("example.org");
+
+    const content = await run("source_get", { source_id: text.added.id });
+    expect(content.content).toBe("Notes on the Calvin cycle.");
+
+    const deleted = await run("source_delete", { notebook_id: notebookId, source_ids: urls.added.map((s: { id: string }) => s.id).join(",") });
+    expect(deleted.count).toBe(2);
+    expect(server.notebooks.get(notebookId)?.sources).toHaveLength(2);
+  });
+
+  test("query streams an answer with citations and follows up", async () => {
+    const first = await run("notebook_query", { notebook_id: notebookId, query: "How do plants eat?" });
+    expect(first.error).toBeUndefined();
+    expect(first.answer).toContain("How do plants eat?");
+    expect(first.citations[0].source_title).toBe("Photosynthesis");
+
+    const followUp = await run("notebook_query", { notebook_id: notebookId, query: "And at night?", conversation_id: first.conversation_id });
+    expect(followUp.conversation_id).toBe(first.conversation_id);
+    expect(followUp.turn_id).not.toBe(first.turn_id);
+  });
+
+  test("research: start, review, import", async () => {
+    const started = await run("research_start", { notebook_id: notebookId, query: "Leaf anatomy" });
+    const taskId = started.started.taskId;
+
+    const status = await run("research_status", { notebook_id: notebookId, task_id: taskId });
+    expect(status.error).toBeUndefined();
+
+    for (const indices of ["0,x", "1.5", " , "]) {
+      const rejected = await run("research_import", { notebook_id: notebookId, task_id: taskId, indices });
+      expect(rejected.error.code).toBe("VALIDATION_ERROR");
+    }
+
+    const imported = await run("research_import", { notebook_id: notebookId, task_id: taskId, indices: "0,,2," });
+    expect(imported.imported).toBe(2);
+    expect(server.notebooks.get(notebookId)?.sources.map((s) => s.title)).toContain("Leaf anatomy (3)");
+  });
+
+  test("research: a polled report is added as a source once", async () => {
+    const started = await run("research_start", { notebook_id: notebookId, query: "Stomata", mode: "deep" });
+    const taskId = started.started.taskId;
+    const before = server.notebooks.get(notebookId)!.sources.length;
+
+    const first = await run("research_status", { notebook_id: notebookId, task_id: taskId, add_as_source: true });
+    const second = await run("research_status", { notebook_id: notebookId, task_id: taskId, add_as_source: true });
+    expect(first.source_id).toBeDefined();
+    expect(second).toMatchObject({ source_id: first.source_id, already_added: true });
+    expect(server.notebooks.get(notebookId)!.sources).toHaveLength(before + 1);
+  });
+
+  test("studio: create, list, download, delete", async () => {
+    const created = await run("studio_create", { notebook_id: notebookId, type: "audio" });
+    const artifactId = created.started.artifactId;
+
+    const listed = await run("studio_list", { notebook_id: notebookId });
+    const artifact = listed.artifacts.find((a: { id: string }) => a.id === artifactId);
+    expect(artifact.status).toBe("ready");
+    expect(artifact.url).toBe(`${server.url}/media/${artifactId}`);
+
+    const downloaded = await run("studio_download", { notebook_id: notebookId, artifact_ids: artifactId });
+    expect(downloaded.count).toBe(1);
+    expect(existsSync(downloaded.downloaded[0].path)).toBe(true);
+
+    expect((await run("studio_delete", { notebook_id: notebookId, artifact_ids: artifactId })).count).toBe(1);
+    expect(server.artifacts.has(artifactId)).toBe(false);
+  });
+
+  test("mind maps: create, list, delete", async () => {
+    const created = await run("mindmap_create", { notebook_id: notebookId, title: "Overview", format: "outline" });
+    expect(created.content).toContain("Photosynthesis");
+
+    const listed = await run("mindmap_list", { notebook_id: notebookId });
+    expect(listed.mind_maps.map((m: { id: string }) => m.id)).toContain(created.mind_map_id);
+
+    await run("mindmap_delete", { notebook_id: notebookId, mind_map_ids: created.mind_map_id });
+    expect((await run("mindmap_list", { notebook_id: notebookId })).count).toBe(0);
+  });
+
+  test("output paths outside the project are rejected", async () => {
+    const first = await run("notebook_query", { notebook_id: notebookId, query: "Where does the sugar go?" });
+    const exported = await run("conversation_export", { conversation_id: first.conversation_id, output_path: "../outside.md" });
+    expect(exported.error.code).toBe("VALIDATION_ERROR");
+
+    const mindMap = await run("mindmap_create", { notebook_id: notebookId, output_path: join(tmpdir(), "mindmap.md") });
+    expect(mindMap.error.code).toBe("VALIDATION_ERROR");
+    expect((await run("mindmap_list", { notebook_id: notebookId })).count).toBe(0);
+
+    const downloaded = await run("studio_download", { notebook_id: notebookId, artifact_ids: "any", output_dir: "../media" });
+    expect(downloaded.error.code).toBe("VALIDATION_ERROR");
+    expect(existsSync(join(dir, "..", "outside.md"))).toBe(false);
+  });
+
+  describe("recovery", () => {
+    test("refreshes a rotated CSRF token from the notebook page", async () => {
+      server.rotateCsrf();
+      let result: any;
+      const requests = await requestsDuring(async () => {
+        result = await run("notebook_list");
+      });
+      expect(result.error).toBeUndefined();
+      expect(requests.map((r) => `${r.kind}:${r.status}`)).toEqual(["rpc:401", "page:200", "rpc:200"]);
+    });
+
+    test("uses the backend label found on the notebook page", async () => {
+      // Set by the CSRF refresh above, and saved with the tokens
+      const requests = await requestsDuring(() => run("notebook_list"));
+      expect(requests[0]!.url.searchParams.get("bl")).toBe(server.backendLabel);
+      expect(JSON.parse(readFileSync(join(dir, "auth.json"), "utf-8")).backend_label).toBe(server.backendLabel);
+    });
+
+    test("recovers from RPC error 16", async () => {
+      server.inject({ rpcError: 16, rpcId: RPC_IDS.LIST_NOTEBOOKS });
+      const requests = await requestsDuring(async () => {
+        expect((await run("notebook_list")).error).toBeUndefined();
+      });
+      expect(requests.filter((r) => r.kind === "page")).toHaveLength(1);
+    });
+
+    test("retries a 429 after Retry-After", async () => {
+      server.inject({ status: 429, retryAfter: 0 });
+      const requests = await requestsDuring(async () => {
+        expect((await run("notebook_list")).error).toBeUndefined();
+      });
+      expect(requests.map((r) => r.status)).toEqual([429, 200]);
+    });
+
+    test("query recovers from RPC error 16 in the stream", async () => {
+      server.inject({ rpcError: 16, rpcId: QUERY_RPC });
+      const result = await run("notebook_query", { notebook_id: notebookId, query: "What is chlorophyll?" });
+      expect(result.error).toBeUndefined();
+      expect(result.answer).toContain("chlorophyll");
+    });
+
+    test("does not duplicate a create that failed after being applied", async () => {
+      server.inject({ status: 500, retryAfter: 0, applied: true, rpcId: RPC_IDS.CREATE_NOTEBOOK });
+      const result = await run("notebook_create", { title: "Exactly once" });
+      expect(result.error).toBeUndefined();
+      const matching = [...server.notebooks.values()].filter((nb) => nb.title === "Exactly once");
+      expect(matching.map((nb) => nb.id)).toEqual([result.created.id]);
+    });
+
+    test("reports an unknown notebook as an RPC error", async () => {
+      const result = await run("source_list", { notebook_id: "missing" });
+      expect(result.error.code).toBe("RPC_ERROR");
+    });
+  });
+});
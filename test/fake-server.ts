@@ -0,0 +1,602 @@
+/**
+ * Fake NotebookLM server
+ *
+ * A stateful in-memory stand-in for the batchexecute endpoint, the
+ * GenerateFreeFormStreamed query stream, the notebook page (CSRF token and
+ * session ID) and artifact media, answering in Google's XSSI-prefixed
+ * chunked format. Point the plugin at it with setBaseUrl() (or
+ * NOTEBOOKLM_BASE_URL) to run the tools end to end; inject() queues HTTP
+ * failures and RPC errors to exercise retries and auth recovery.
+ *
+ * Standalone: bun test/fake-server.ts [port]
+ */
+
+import { CONSTANTS, RPC_IDS } from "../src/types";
+import { Config } from "../src/config";
+import { parseQueryBody, parseRpcBody } from "../src/client/encoding";
+
+// Streaming queries are matched by this id in faults and the request log
+export const QUERY_RPC = "query";
+
+export type Fault = (
+  // Fail the whole request with an HTTP status; `applied` carries out the
+  // request first, like a write that went through but reported an error
+  | { status: number; retryAfter?: number; applied?: boolean }
+  // Answer the call with an RPC error code in its wrb.fr envelope
+  | { rpcError: number }
+) & {
+  // Only requests carrying this RPC (default: the next request)
+  rpcId?: string;
+};
+
+export interface FakeRequest {
+  kind: "rpc" | "query" | "page" | "media";
+  rpcIds: string[];
+  url: URL;
+  status: number;
+}
+
+interface FakeSource {
+  id: string;
+  title: string;
+  type: number;
+  url: string | null;
+  text: string;
+  createdAt: number;
+}
+
+interface FakeNotebook {
+  id: string;
+  title: string;
+  sources: FakeSource[];
+  createdAt: number;
+  modifiedAt: number;
+}
+
+interface FakeResearch {
+  id: string;
+  notebookId: string;
+  query: string;
+  deep: boolean;
+  polls: number;
+}
+
+interface FakeArtifact {
+  id: string;
+  notebookId: string;
+  title: string;
+  typeCode: number;
+  sourceIds: string[];
+  content: unknown[];
+  polls: number;
+  createdAt: number;
+}
+
+interface FakeMindMap {
+  id: string;
+  notebookId: string;
+  title: string;
+  tree: string;
+  createdAt: number;
+  deleted: boolean;
+}
+
+// gRPC status codes NotebookLM reports in wrb.fr envelopes
+const NOT_FOUND = 5;
+const UNIMPLEMENTED = 12;
+
+class RpcFailure extends Error {
+  constructor(readonly code: number) {
+    super(`RPC error ${code}`);
+  }
+}
+
+// Studio type code → content slot (see STUDIO_CONTENT_SLOTS in the codec)
+const STUDIO_SLOTS: Record<number, number> = {
+  [CONSTANTS.STUDIO_TYPE_AUDIO]: 6,
+  [CONSTANTS.STUDIO_TYPE_REPORT]: 7,
+  [CONSTANTS.STUDIO_TYPE_VIDEO]: 8,
+  [CONSTANTS.STUDIO_TYPE_FLASHCARDS]: 9,
+  [CONSTANTS.STUDIO_TYPE_INFOGRAPHIC]: 14,
+  [CONSTANTS.STUDIO_TYPE_SLIDE_DECK]: 16,
+  [CONSTANTS.STUDIO_TYPE_DATA_TABLE]: 18,
+};
+
+const STUDIO_TITLES: Record<number, string> = {
+  [CONSTANTS.STUDIO_TYPE_AUDIO]: "Audio Overview",
+  [CONSTANTS.STUDIO_TYPE_REPORT]: "Briefing Doc",
+  [CONSTANTS.STUDIO_TYPE_VIDEO]: "Video Overview",
+  [CONSTANTS.STUDIO_TYPE_FLASHCARDS]: "Flashcards",
+  [CONSTANTS.STUDIO_TYPE_INFOGRAPHIC]: "Infographic",
+  [CONSTANTS.STUDIO_TYPE_SLIDE_DECK]: "Slide Deck",
+  [CONSTANTS.STUDIO_TYPE_DATA_TABLE]: "Data Table",
+};
+
+const MEDIA_TYPES: Record<number, string> = {
+  [CONSTANTS.STUDIO_TYPE_AUDIO]: "audio/mp4",
+  [CONSTANTS.STUDIO_TYPE_VIDEO]: "video/mp4",
+  [CONSTANTS.STUDIO_TYPE_INFOGRAPHIC]: "image/png",
+  [CONSTANTS.STUDIO_TYPE_SLIDE_DECK]: "application/pdf",
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const randomToken = () => crypto.randomUUID().replace(/-/g, "");
+
+/**
+ * Length-prefixed JSON lines after the anti-XSSI prefix
+ */
+function chunk(data: unknown): string {
+  const json = JSON.stringify(data);
+  return `${json.length}\n${json}\n`;
+}
+
+export class FakeNotebookLM {
+  // Tokens the server currently accepts
+  csrfToken = randomToken();
+  sessionId = String(Math.floor(Math.random() * 1e18));
+  // Build label served on the notebook page
+  backendLabel = "boq_labs-tailwind-frontend_20990101.00_p0";
+
+  readonly notebooks = new Map<string, FakeNotebook>();
+  readonly research = new Map<string, FakeResearch>();
+  readonly artifacts = new Map<string, FakeArtifact>();
+  readonly mindMaps = new Map<string, FakeMindMap>();
+  readonly requests: FakeRequest[] = [];
+
+  private faults: Fault[] = [];
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private turns = 0;
+
+  /**
+   * @param pollsUntilReady status polls that report research/studio work as still running
+   */
+  constructor(private options: { pollsUntilReady?: number } = {}) {}
+
+  get url(): string {
+    if (!this.server) throw new Error("Fake server is not running");
+    return `http://localhost:${this.server.port}`;
+  }
+
+  start(port = 0): string {
+    this.server ??= Bun.serve({ port, fetch: (req) => this.handle(req) });
+    return this.url;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Queue a failure for the next matching request
+   */
+  inject(fault: Fault): void {
+    this.faults.push(fault);
+  }
+
+  /**
+   * Issue a new CSRF token; requests still sending the old one get a 401
+   */
+  rotateCsrf(): void {
+    this.csrfToken = randomToken();
+  }
+
+  /**
+   * Cookies that pass the server's auth check
+   */
+  cookies(): Record<string, string> {
+    return { SID: "fake-sid", HSID: "fake-hsid", SSID: "fake-ssid", APISID: "fake-apisid", SAPISID: "fake-sapisid" };
+  }
+
+  addNotebook(title: string): FakeNotebook {
+    const notebook: FakeNotebook = { id: crypto.randomUUID(), title, sources: [], createdAt: now(), modifiedAt: now() };
+    this.notebooks.set(notebook.id, notebook);
+    return notebook;
+  }
+
+  addSource(notebookId: string, source: { title: string; text?: string; url?: string; type?: number }): FakeSource {
+    const notebook = this.notebook(notebookId);
+    const added: FakeSource = {
+      id: crypto.randomUUID(),
+      title: source.title,
+      type: source.type ?? (source.url ? CONSTANTS.SOURCE_TYPE_WEB : CONSTANTS.SOURCE_TYPE_PASTED_TEXT),
+      url: source.url ?? null,
+      text: source.text ?? `Content of ${source.title}.`,
+      createdAt: now(),
+    };
+    notebook.sources.push(added);
+    notebook.modifiedAt = now();
+    return added;
+  }
+
+  // =========================================================================
+  // HTTP
+  // =========================================================================
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const log = (kind: FakeRequest["kind"], rpcIds: string[], response: Response) => {
+      this.requests.push({ kind, rpcIds, url, status: response.status });
+      return response;
+    };
+
+    if (req.method === "GET" && url.pathname.startsWith("/media/")) {
+      return log("media", [], this.media(url.pathname.slice("/media/".length)));
+    }
+    if (req.method === "GET") {
+      return log("page", [], this.page(req));
+    }
+
+    const body = await req.text();
+    if (url.pathname === Config.QUERY_ENDPOINT) {
+      return log("query", [QUERY_RPC], this.respond(req, body, [QUERY_RPC], (fault) => this.query(parseQueryBody(body), fault)));
+    }
+    if (url.pathname.endsWith("/data/batchexecute")) {
+      const envelopes = parseRpcBody(body);
+      const rpcIds = envelopes.map((e) => String(e[0]));
+      return log("rpc", rpcIds, this.respond(req, body, rpcIds, (fault) => this.batch(envelopes, fault)));
+    }
+    return log("page", [], new Response("Not found", { status: 404 }));
+  }
+
+  /**
+   * Apply faults and the auth check around a POST handler
+   */
+  private respond(req: Request, body: string, rpcIds: string[], run: (fault: { rpcError: number; rpcId?: string } | null) => Response): Response {
+    const index = this.faults.findIndex((f) => !f.rpcId || rpcIds.includes(f.rpcId));
+    const fault = index >= 0 ? this.faults.splice(index, 1)[0]! : null;
+
+    const fail = (f: { status: number; retryAfter?: number }) => new Response("Error", {
+      status: f.status,
+      headers: f.retryAfter !== undefined ? { "Retry-After": String(f.retryAfter) } : {},
+    });
+
+    if (fault && "status" in fault && !fault.applied) return fail(fault);
+    if (!this.authorized(req) || new URLSearchParams(body).get("at") !== this.csrfToken) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const response = run(fault && "rpcError" in fault ? fault : null);
+    return fault && "status" in fault ? fail(fault) : response;
+  }
+
+  private authorized(req: Request): boolean {
+    const cookies = req.headers.get("cookie") ?? "";
+    return /(^|;\s*)SID=/.test(cookies);
+  }
+
+  private page(req: Request): Response {
+    if (!this.authorized(req)) {
+      return new Response("Sign in", { status: 401 });
+    }
+    const data = JSON.stringify({ SNlM0e: this.csrfToken, FdrFJe: this.sessionId, cfb2h: this.backendLabel });
+    return new Response(`<!doctype html><html><head><script>window.WIZ_global_data = ${data};</script></head><body></body></html>`, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  private media(name: string): Response {
+    const artifact = this.artifacts.get(name.replace(/\.\w+$/, ""));
+    if (!artifact) return new Response("Not found", { status: 404 });
+    return new Response(`fake ${artifact.title}`, {
+      headers: { "Content-Type": MEDIA_TYPES[artifact.typeCode] ?? "application/octet-stream" },
+    });
+  }
+
+  /**
+   * Answer each envelope, echoing its tag
+   */
+  private batch(envelopes: unknown[][], fault: { rpcError: number; rpcId?: string } | null): Response {
+    let faulted = false;
+    const items = envelopes.map(([rpcId, paramsJson, , tag]) => {
+      const id = String(rpcId);
+      const error = (code: number) => ["wrb.fr", id, null, null, null, [code], tag];
+      if (fault && !faulted && (!fault.rpcId || fault.rpcId === id)) {
+        faulted = true;
+        return error(fault.rpcError);
+      }
+      try {
+        const params = JSON.parse(String(paramsJson));
+        return ["wrb.fr", id, JSON.stringify(this.call(id, params)), null, null, null, tag];
+      } catch (e) {
+        return error(e instanceof RpcFailure ? e.code : UNIMPLEMENTED);
+      }
+    });
+    return new Response(")]}'\n\n" + chunk(items) + chunk([["di", 7], ["af.httprm", 7, "-1", 1]]));
+  }
+
+  // =========================================================================
+  // RPCs
+  // =========================================================================
+
+  private notebook(id: unknown): FakeNotebook {
+    const notebook = typeof id === "string" ? this.notebooks.get(id) : undefined;
+    if (!notebook) throw new RpcFailure(NOT_FOUND);
+    return notebook;
+  }
+
+  private source(id: unknown): { notebook: FakeNotebook; source: FakeSource } {
+    for (const notebook of this.notebooks.values()) {
+      const source = notebook.sources.find((s) => s.id === id);
+      if (source) return { notebook, source };
+    }
+    throw new RpcFailure(NOT_FOUND);
+  }
+
+  private sourceMeta(source: FakeSource): unknown[] {
+    return [null, source.text.length, [source.createdAt], null, source.type, null, null, source.url ? [source.url] : null];
+  }
+
+  private call(rpcId: string, p: any[]): unknown {
+    switch (rpcId) {
+      case RPC_IDS.LIST_NOTEBOOKS:
+        return [[...this.notebooks.values()].map((nb) => [
+          nb.title,
+          nb.sources.map((s) => [[s.id], s.title]),
+          nb.id,
+          null,
+          null,
+          [CONSTANTS.OWNERSHIP_MINE, false, null, null, null, [nb.modifiedAt], null, null, [nb.createdAt]],
+        ])];
+
+      case RPC_IDS.GET_NOTEBOOK: {
+        const nb = this.notebook(p[0]);
+        return [[nb.title, nb.sources.map((s) => [[s.id], s.title, this.sourceMeta(s)]), nb.id]];
+      }
+
+      case RPC_IDS.CREATE_NOTEBOOK: {
+        const nb = this.addNotebook(String(p[0] ?? ""));
+        return [nb.title, null, nb.id];
+      }
+
+      case RPC_IDS.RENAME_NOTEBOOK: {
+        // Also carries chat settings (no title at [1][0][3])
+        const nb = this.notebook(p[0]);
+        const title = p[1]?.[0]?.[3]?.[1];
+        if (typeof title === "string") nb.title = title;
+        nb.modifiedAt = now();
+        return [];
+      }
+
+      case RPC_IDS.DELETE_NOTEBOOK:
+        for (const id of p[0] ?? []) this.notebooks.delete(id);
+        return [];
+
+      case RPC_IDS.ADD_SOURCE: {
+        const nb = this.notebook(p[1]);
+        return (p[0] as any[]).map((data) => {
+          const url = data[2]?.[0];
+          const source = typeof url === "string"
+            ? this.addSource(nb.id, { title: new URL(url).hostname, url, text: `Web page at ${url}.` })
+            : Array.isArray(data[1])
+              ? this.addSource(nb.id, { title: data[1][0], text: data[1][1] })
+              : this.addSource(nb.id, { title: data[0]?.[3] ?? "Drive Document", type: CONSTANTS.SOURCE_TYPE_GOOGLE_DOCS });
+          return [[source.id], source.title];
+        });
+      }
+
+      case RPC_IDS.GET_SOURCE: {
+        const { source } = this.source(p[0]?.[0]);
+        return [[[source.id], source.title, this.sourceMeta(source)], null, null, [source.text.split(/\n{2,}/)]];
+      }
+
+      case RPC_IDS.DELETE_SOURCE: {
+        const { notebook, source } = this.source(p[0]?.[0]?.[0]);
+        notebook.sources = notebook.sources.filter((s) => s !== source);
+        return [];
+      }
+
+      case RPC_IDS.CHECK_FRESHNESS:
+        this.source(p[1]?.[0]);
+        return [[null, true]];
+
+      case RPC_IDS.SYNC_DRIVE: {
+        const { source } = this.source(p[1]?.[0]);
+        return [[[source.id], source.title, [null, null, null, [null, [now()]]]]];
+      }
+
+      case RPC_IDS.GET_SUMMARY: {
+        const nb = this.notebook(p[0]);
+        const titles = nb.sources.map((s) => s.title).join(", ") || "no sources";
+        return [[`A notebook about ${titles}.`], [nb.sources.map((s) => [`What is ${s.title}?`, `Explain ${s.title}`])]];
+      }
+
+      case RPC_IDS.GET_SOURCE_GUIDE: {
+        const { source } = this.source(p[0]?.[0]?.[0]?.[0]);
+        return [[[null, [`Summary of ${source.title}.`], [source.title.toLowerCase().split(/\W+/).filter(Boolean)]]]];
+      }
+
+      case RPC_IDS.START_FAST_RESEARCH:
+      case RPC_IDS.START_DEEP_RESEARCH: {
+        const deep = rpcId === RPC_IDS.START_DEEP_RESEARCH;
+        const [query] = (deep ? p[2] : p[0]) ?? [];
+        const nb = this.notebook(deep ? p[4] : p[3]);
+        const task: FakeResearch = { id: crypto.randomUUID(), notebookId: nb.id, query: String(query), deep, polls: 0 };
+        this.research.set(task.id, task);
+        return [task.id];
+      }
+
+      case RPC_IDS.POLL_RESEARCH: {
+        const task = p[1]
+          ? this.research.get(p[1])
+          : [...this.research.values()].filter((t) => t.notebookId === p[0]).pop();
+        if (!task) throw new RpcFailure(NOT_FOUND);
+        if (task.polls++ < (this.options.pollsUntilReady ?? 1)) return [1, [], null];
+        const report = task.deep ? `# ${task.query}\n\nFindings on ${task.query}.` : null;
+        return [2, this.researchResults(task).map((r) => [r.title, r.url, r.type]), report];
+      }
+
+      case RPC_IDS.IMPORT_RESEARCH: {
+        const nb = this.notebook(p[0]);
+        const task = this.research.get(p[1]);
+        if (!task) throw new RpcFailure(NOT_FOUND);
+        const results = this.researchResults(task);
+        const indices: number[] = p[2] ?? results.map((_, i) => i);
+        return indices.flatMap((i) => {
+          const result = results[i];
+          if (!result) return [];
+          const source = this.addSource(nb.id, { title: result.title, url: result.url, text: `Research result for ${task.query}.` });
+          return [[[source.id], source.title]];
+        });
+      }
+
+      case RPC_IDS.CREATE_STUDIO: {
+        const nb = this.notebook(p[1]);
+        const content: unknown[] = p[2] ?? [];
+        const typeCode = Number(content[2]);
+        const artifact: FakeArtifact = {
+          id: crypto.randomUUID(),
+          notebookId: nb.id,
+          title: `${STUDIO_TITLES[typeCode] ?? "Studio"}: ${nb.title}`,
+          typeCode,
+          sourceIds: ((content[3] as any[]) ?? []).map((s) => s?.[0]?.[0]),
+          content,
+          polls: 0,
+          createdAt: now(),
+        };
+        this.artifacts.set(artifact.id, artifact);
+        return [[artifact.id]];
+      }
+
+      case RPC_IDS.POLL_STUDIO: {
+        const nb = this.notebook(p[1]);
+        return [[...this.artifacts.values()].filter((a) => a.notebookId === nb.id).map((a) => this.artifactRow(a))];
+      }
+
+      case RPC_IDS.DELETE_STUDIO:
+        if (!this.artifacts.delete(p[1])) throw new RpcFailure(NOT_FOUND);
+        return [];
+
+      case RPC_IDS.GENERATE_MIND_MAP: {
+        const titles = ((p[0] as any[]) ?? []).map((s) => {
+          try {
+            return this.source(s?.[0]?.[0]).source.title;
+          } catch {
+            return "Unknown source";
+          }
+        });
+        return [[JSON.stringify({ name: "Sources", children: titles.map((name) => ({ name, children: [] })) })]];
+      }
+
+      case RPC_IDS.SAVE_MIND_MAP: {
+        const nb = this.notebook(p[0]);
+        const map: FakeMindMap = {
+          id: crypto.randomUUID(), notebookId: nb.id, title: String(p[4] ?? "Mind Map"), tree: String(p[1]), createdAt: now(), deleted: false,
+        };
+        this.mindMaps.set(map.id, map);
+        return [this.mindMapDetails(map)];
+      }
+
+      case RPC_IDS.LIST_MIND_MAPS: {
+        const nb = this.notebook(p[0]);
+        // Deleted mind maps stay listed without details
+        return [[...this.mindMaps.values()].filter((m) => m.notebookId === nb.id).map((m) => [m.id, m.deleted ? null : this.mindMapDetails(m)])];
+      }
+
+      case RPC_IDS.DELETE_MIND_MAP: {
+        const map = this.mindMaps.get(p[2]?.[0]);
+        if (!map || map.notebookId !== p[0]) throw new RpcFailure(NOT_FOUND);
+        map.deleted = true;
+        return [];
+      }
+
+      default:
+        throw new RpcFailure(UNIMPLEMENTED);
+    }
+  }
+
+  private researchResults(task: FakeResearch): { title: string; url: string; type: number }[] {
+    const slug = task.query.toLowerCase().replace(/\W+/g, "-");
+    return [1, 2, 3].map((n) => ({ title: `${task.query} (${n})`, url: `https://example.com/${slug}/${n}`, type: 1 }));
+  }
+
+  private artifactRow(artifact: FakeArtifact): unknown[] {
+    const ready = artifact.polls++ >= (this.options.pollsUntilReady ?? 1);
+    const row: unknown[] = Array.from({ length: 16 }, () => null);
+    row[0] = artifact.id;
+    row[1] = artifact.title;
+    row[2] = artifact.typeCode;
+    row[3] = artifact.sourceIds.map((id) => [[id]]);
+    row[4] = ready ? 3 : 1;
+    row[15] = [artifact.createdAt];
+
+    const slot = STUDIO_SLOTS[artifact.typeCode];
+    if (slot !== undefined) {
+      row[slot] = ready ? this.artifactOutput(artifact, artifact.content[slot]) : artifact.content[slot] ?? null;
+    }
+    return row;
+  }
+
+  /**
+   * Generated output next to the echoed options, as in the real content slot
+   */
+  private artifactOutput(artifact: FakeArtifact, options: unknown): unknown[] {
+    switch (artifact.typeCode) {
+      case CONSTANTS.STUDIO_TYPE_REPORT:
+        return [options, `# ${artifact.title}\n\nA generated report covering ${artifact.sourceIds.length} source(s) in detail.`];
+      case CONSTANTS.STUDIO_TYPE_DATA_TABLE:
+        return [options, [["Source", "Summary"], ...artifact.sourceIds.map((id) => [id, "Covered"])]];
+      case CONSTANTS.STUDIO_TYPE_SLIDE_DECK:
+        return [options, [`${this.url}/media/${artifact.id}.pdf`]];
+      case CONSTANTS.STUDIO_TYPE_FLASHCARDS:
+        return [options, [["Question?", "Answer."]]];
+      default:
+        return [options, [`${this.url}/media/${artifact.id}`]];
+    }
+  }
+
+  private mindMapDetails(map: FakeMindMap): unknown[] {
+    return [map.id, map.tree, [null, null, [map.createdAt]], null, map.title];
+  }
+
+  // =========================================================================
+  // Streaming query
+  // =========================================================================
+
+  /**
+   * Stream a cumulative answer in two frames, citing the first source
+   */
+  private query(params: unknown, fault: { rpcError: number } | null): Response {
+    const error = (code: number) => new Response(")]}'\n\n" + chunk([["wrb.fr", null, null, null, null, [code], "generic"]]));
+    if (fault) return error(fault.rpcError);
+
+    const p = Array.isArray(params) ? params : [];
+    const sourceIds = ((p[0] as any[]) ?? []).map((s) => s?.[0]?.[0]).filter((id): id is string => typeof id === "string");
+    const sources = sourceIds.flatMap((id) => {
+      try {
+        return [this.source(id).source];
+      } catch {
+        return [];
+      }
+    });
+    if (sources.length === 0) return error(NOT_FOUND);
+
+    const conversationId = typeof p[4] === "string" ? p[4] : crypto.randomUUID();
+    const turnId = `turn-${++this.turns}`;
+    const first = sources[0]!;
+    const answer = `Based on ${sources.map((s) => s.title).join(", ")}: ${String(p[1])} is answered here [1].`;
+    const citation = [["chunk-1"], [null, null, null, [[0, first.text.length]], [first.text], [[[first.id]]]]];
+    const frame = (text: string) => chunk([[
+      "wrb.fr",
+      null,
+      JSON.stringify([[text, null, [conversationId, turnId], null, [null, null, null, [citation], 1]]]),
+    ]]);
+
+    const frames = [")]}'\n\n", frame(answer.slice(0, Math.ceil(answer.length / 2))), frame(answer)];
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+      start(controller) {
+        for (const f of frames) controller.enqueue(encoder.encode(f));
+        controller.close();
+      },
+    }));
+  }
+}
+
+if (import.meta.main) {
+  const server = new FakeNotebookLM();
+  const url = server.start(Number(Bun.argv[2]) || 0);
+  console.log(`Fake NotebookLM listening on ${url}`);
+  console.log(`Run the plugin with NOTEBOOKLM_BASE_URL=${url} and any cookie header containing SID, HSID, SSID, APISID and SAPISID`);
+}
@@ -0,0 +1,124 @@
+/**
+ * Record/Replay Fixture Tests (fetch is stubbed during recording)
+ */
+import { describe, test, expect, afterEach, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RpcTransport } from "../src/client/transport";
+import { RateLimiter } from "../src/client/rate-limiter";
+import { recordInterceptor, replayInterceptor, normalizeParams } from "../src/client/fixtures";
+import { QueryStreamDecoder } from "../src/client/codec";
+import type { Interceptor } from "../src/client/interceptors";
+
+const realFetch = globalThis.fetch;
+const root = mkdtempSync(join(tmpdir(), "nlm-fixtures-"));
+const CSRF = "csrf-secret-token";
+const COOKIE = "cookie-secret-value";
+
+/** Server stub: echoes params (plus a call counter) and the CSRF token */
+function stubServer(): { requests: number } {
+  const state = { requests: 0 };
+  globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+    state.requests++;
+    const form = new URLSearchParams(String(init?.body));
+    if (String(input).includes("GenerateFreeFormStreamed")) {
+      const inner = JSON.stringify([[`Answer number ${state.requests}, grounded in the sources.`]]);
+      const line = JSON.stringify([["wrb.fr", null, inner]]);
+      return new Response(`)]}'\n${line.length}\n${line}\n`);
+    }
+    const envelopes = JSON.parse(form.get("f.req")!)[0] as unknown[][];
+    const line = JSON.stringify(envelopes.map(([rpcId, params, , tag]) =>
+      ["wrb.fr", rpcId, JSON.stringify([JSON.parse(String(params)), state.requests, form.get("at")]), null, null, null, tag]
+    ));
+    return new Response(`)]}'\n\n${line.length}\n${line}\n`);
+  }) as typeof fetch;
+  return state;
+}
+
+function transport(interceptor: Interceptor) {
+  const rateLimiter = new RateLimiter({ global: { capacity: Infinity, refillMs: 1 }, budgets: {} });
+  return new RpcTransport({ cookies: { SID: COOKIE }, csrfToken: CSRF, sessionId: "sid", rateLimiter, interceptors: [interceptor] });
+}
+
+function offline(): void {
+  globalThis.fetch = (async () => {
+    throw new Error("network disabled");
+  }) as unknown as typeof fetch;
+}
+
+describe("record/replay", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("replays recorded RPCs without network, secrets scrubbed", async () => {
+    const dir = mkdtempSync(join(root, "case-"));
+    stubServer();
+    const recorder = transport(recordInterceptor(dir, () => [CSRF, COOKIE]));
+    const single = await recorder.call("list", [null, 1]);
+    const many = await recorder.callMany([
+      { rpcId: "guide", params: ["s1"] },
+      { rpcId: "guide", params: ["s2"] },
+    ]);
+
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(3);
+    for (const file of files) {
+      const text = readFileSync(join(dir, file), "utf-8");
+      expect(text).not.toContain(CSRF);
+      expect(text).toContain("<redacted>");
+    }
+
+    offline();
+    const player = transport(replayInterceptor(dir));
+    expect(await player.call("list", [null, 1])).toEqual([[null, 1], 1, "<redacted>"]);
+    // Batched differently than recorded: still matched per call
+    expect(await player.call("guide", ["s2"])).toEqual([["s2"], 2, "<redacted>"]);
+    expect(many[1]).toEqual({ ok: true, value: [["s2"], 2, CSRF] });
+    expect(single).toEqual([[null, 1], 1, CSRF]);
+  });
+
+  test("repeated calls replay in recorded order, then repeat the last", async () => {
+    const dir = mkdtempSync(join(root, "case-"));
+    stubServer();
+    const recorder = transport(recordInterceptor(dir, () => []));
+    await recorder.call("poll", ["nb"]);
+    await recorder.call("poll", ["nb"]);
+
+    offline();
+    const player = transport(replayInterceptor(dir));
+    const counts = [];
+    for (let i = 0; i < 3; i++) {
+      counts.push(((await player.call("poll", ["nb"])) as unknown[])[1]);
+    }
+    expect(counts).toEqual([1, 2, 2]);
+  });
+
+  test("queries match regardless of conversation ID", async () => {
+    const dir = mkdtempSync(join(root, "case-"));
+    stubServer();
+    const params = (conversationId: string) => [[[["src-1"]]], "What is it?", null, [2, null, [1], [1]], conversationId, null, null, null, 2];
+    await transport(recordInterceptor(dir, () => [])).streamQuery(params("conv-a"), { onChunk: () => {} });
+
+    offline();
+    const decoder = new QueryStreamDecoder();
+    await transport(replayInterceptor(dir)).streamQuery(params("conv-b"), { onChunk: (chunk) => decoder.push(chunk) });
+    expect(decoder.finish().answer).toBe("Answer number 1, grounded in the sources.");
+  });
+
+  test("missing fixtures fail with NOT_FOUND", async () => {
+    offline();
+    const player = transport(replayInterceptor(mkdtempSync(join(root, "case-"))));
+    const error = await player.call("list", [1]).catch((e) => e);
+    expect(error.code).toBe("NOT_FOUND");
+  });
+
+  test("normalizeParams ignores object key order", () => {
+    expect(normalizeParams("x", [{ b: 1, a: 2 }])).toBe(normalizeParams("x", [{ a: 2, b: 1 }]));
+  });
+});
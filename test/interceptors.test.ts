@@ -0,0 +1,108 @@
+/**
+ * Interceptor Chain Tests (fetch is stubbed)
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { RpcTransport } from "../src/client/transport";
+import { RateLimiter } from "../src/client/rate-limiter";
+import type { Interceptor } from "../src/client/interceptors";
+
+const realFetch = globalThis.fetch;
+
+/** Echo every envelope's params back; record the sent headers */
+function stubFetch(): Headers[] {
+  const sent: Headers[] = [];
+  globalThis.fetch = (async (_input: string | URL, init?: RequestInit) => {
+    sent.push(new Headers(init?.headers));
+    const form = new URLSearchParams(String(init?.body));
+    const envelopes = JSON.parse(form.get("f.req")!)[0] as unknown[][];
+    const line = JSON.stringify(envelopes.map(([rpcId, params, , tag]) => ["wrb.fr", rpcId, params, null, null, null, tag]));
+    return new Response(`)]}'\n\n${line.length}\n${line}\n`);
+  }) as typeof fetch;
+  return sent;
+}
+
+function transport(options: { onAuthRefresh?: () => Promise<boolean> } = {}) {
+  let clock = 0;
+  const rateLimiter = new RateLimiter({ now: () => clock, sleep: async (ms) => { clock += ms; } });
+  return new RpcTransport({ cookies: { SID: "x" }, csrfToken: "csrf", sessionId: "sid", rateLimiter, ...options });
+}
+
+/** Answer the first `count` requests with `status` instead of sending them */
+function failFirst(count: number, status: number): Interceptor {
+  let remaining = count;
+  return {
+    name: "fault",
+    onRequest: () => (remaining-- > 0 ? new Response("", { status }) : undefined),
+  };
+}
+
+describe("interceptor chain", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("custom interceptors see the final request and can add headers", async () => {
+    const sent = stubFetch();
+    const urls: string[] = [];
+    const rpc = transport();
+    rpc.use({
+      name: "trace",
+      onRequest: (ctx) => {
+        urls.push(ctx.url.toString());
+        ctx.headers["X-Trace"] = "t-1";
+      },
+    });
+
+    expect(await rpc.call("abc", [1], { batch: false })).toEqual([1]);
+    expect(sent[0]!.get("X-Trace")).toBe("t-1");
+    const url = new URL(urls[0]!);
+    expect(url.searchParams.get("rpcids")).toBe("abc");
+    expect(url.searchParams.get("f.sid")).toBe("sid");
+  });
+
+  test("injected server errors go through the built-in retry", async () => {
+    const sent = stubFetch();
+    const rpc = transport();
+    rpc.use(failFirst(2, 503));
+
+    expect(await rpc.call("abc", [1], { batch: false })).toEqual([1]);
+    expect(sent).toHaveLength(1);
+  });
+
+  test("injected 401 triggers auth recovery", async () => {
+    stubFetch();
+    let refreshed = 0;
+    const rpc = transport({ onAuthRefresh: async () => (++refreshed, true) });
+    rpc.use(failFirst(1, 401));
+
+    expect(await rpc.call("abc", [1], { batch: false })).toEqual([1]);
+    expect(refreshed).toBe(1);
+  });
+
+  test("custom onResponse runs before the built-ins and can resolve", async () => {
+    stubFetch();
+    const seen: number[] = [];
+    const rpc = transport();
+    rpc.use(failFirst(1, 503));
+    rpc.use({
+      name: "fallback",
+      onResponse: (_ctx, response) => {
+        seen.push(response.status);
+        if (response.status === 503) return { type: "resolve", value: [{ ok: true, value: "cached" }] };
+      },
+    });
+
+    expect(await rpc.call("abc", [1], { batch: false })).toBe("cached");
+    expect(seen).toEqual([503]);
+  });
+
+  test("errors nobody handles are thrown as AppError", async () => {
+    stubFetch();
+    const rpc = transport();
+    rpc.use(failFirst(1, 404));
+
+    const error = await rpc.call("abc", [1], { batch: false }).catch((e) => e);
+    expect(error.code).toBe("UNKNOWN");
+    expect(error.statusCode).toBe(404);
+  });
+});
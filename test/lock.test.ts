@@ -0,0 +1,53 @@
+/**
+ * File Lock Tests
+ */
+import { describe, test, expect, afterAll } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withFileLock } from "../src/state/lock";
+
+const dir = mkdtempSync(join(tmpdir(), "nlm-lock-"));
+
+describe("withFileLock", () => {
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("holds the lock while running and releases it after", async () => {
+    const path = join(dir, "held.json");
+    const held = await withFileLock(path, () => existsSync(`${path}.lock`));
+    expect(held).toBe(true);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("releases the lock when the callback throws", async () => {
+    const path = join(dir, "throws.json");
+    await expect(withFileLock(path, () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("takes over a stale lock left by a crashed process", async () => {
+    const path = join(dir, "stale.json");
+    writeFileSync(`${path}.lock`, "12345");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, old, old);
+
+    expect(await withFileLock(path, () => "ran")).toBe("ran");
+  });
+
+  test("waits for a held lock without blocking other work", async () => {
+    const path = join(dir, "waits.json");
+    const order: string[] = [];
+    let release!: () => void;
+    const first = withFileLock(path, () => new Promise<void>((resolve) => { release = resolve; }));
+    const second = withFileLock(path, () => { order.push("second"); });
+
+    await Bun.sleep(50);
+    order.push("released");
+    release();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(["released", "second"]);
+  });
+});
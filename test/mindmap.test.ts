@@ -0,0 +1,36 @@
+/**
+ * Mind Map Rendering Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { formatMindMapMermaid, formatMindMapOutline, countMindMapNodes } from "../src/client/mindmap";
+import type { MindMapNode } from "../src/types";
+
+const root: MindMapNode = {
+  name: "React",
+  children: [
+    { name: "Hooks (core)", children: [{ name: 'Say "hi"', children: [] }] },
+    { name: "JSX", children: [] },
+  ],
+};
+
+describe("Mind map rendering", () => {
+  test("formatMindMapMermaid quotes labels and indents by depth", () => {
+    expect(formatMindMapMermaid(root)).toBe([
+      "```mermaid",
+      "mindmap",
+      '  root(("React"))',
+      '    ["Hooks (core)"]',
+      '      ["Say #quot;hi#quot;"]',
+      '    ["JSX"]',
+      "```",
+    ].join("\n"));
+  });
+
+  test("formatMindMapOutline nests bullets under the root heading", () => {
+    expect(formatMindMapOutline(root)).toBe("# React\n\n- Hooks (core)\n  - Say \"hi\"\n- JSX");
+  });
+
+  test("countMindMapNodes includes the root", () => {
+    expect(countMindMapNodes(root)).toBe(4);
+  });
+});
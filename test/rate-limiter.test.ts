@@ -0,0 +1,66 @@
+/**
+ * Rate Limiter Tests (fake clock)
+ */
+import { describe, test, expect } from "bun:test";
+import { RateLimiter, parseRetryAfter } from "../src/client/rate-limiter";
+
+function limiter(budgets = { slow: { capacity: 1, refillMs: 1000 } }) {
+  let clock = 0;
+  const sleeps: number[] = [];
+  const rl = new RateLimiter({
+    global: { capacity: 2, refillMs: 100 },
+    budgets,
+    now: () => clock,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+  });
+  return { rl, sleeps, time: () => clock };
+}
+
+describe("RateLimiter", () => {
+  test("allows a burst, then spaces requests by the refill time", async () => {
+    const { rl, sleeps } = limiter();
+    await rl.acquire(["list"]);
+    await rl.acquire(["list"]);
+    expect(sleeps).toEqual([]);
+
+    await rl.acquire(["list"]);
+    expect(sleeps).toEqual([100]);
+  });
+
+  test("per-RPC budgets are tighter than the global bucket", async () => {
+    const { rl, time } = limiter();
+    await rl.acquire(["slow"]);
+    await rl.acquire(["slow"]);
+    expect(time()).toBe(1000);
+
+    // Other RPCs are not held back by the slow bucket
+    await rl.acquire(["list"]);
+    expect(time()).toBe(1000);
+  });
+
+  test("a batch takes one token per call, capped at the bucket size", async () => {
+    const { rl, time } = limiter({ slow: { capacity: 3, refillMs: 1000 } });
+    await rl.acquire(["slow", "slow", "slow", "slow", "slow"]);
+    expect(time()).toBe(0);
+
+    await rl.acquire(["slow"]);
+    expect(time()).toBe(1000);
+  });
+
+  test("pause holds every request", async () => {
+    const { rl, time } = limiter();
+    rl.pause(5000);
+    await rl.acquire(["list"]);
+    expect(time()).toBe(5000);
+  });
+
+  test("parseRetryAfter reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(new Date(10000).toUTCString(), 4000)).toBe(6000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Replay Tests: plugin tools against the committed fixtures in test/fixtures,
+ * with the network disabled. To re-record them from the fake server:
+ *
+ *   NOTEBOOKLM_RECORD_FIXTURES=1 bun test test/replay.test.ts
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import plugin from "../src/index";
+import { setBaseUrl, setTransportMode } from "../src/config";
+import { AuthManager } from "../src/auth/manager";
+import { getCachePath, saveTokensToCache, setTokensPath } from "../src/auth/tokens";
+import { resetClient } from "../src/client";
+import { RateLimiter, setRateLimiter } from "../src/client/rate-limiter";
+import { setConversationsDir } from "../src/client/conversations";
+import { setTasksPath } from "../src/state/tasks";
+import * as session from "../src/state/session";
+import * as cache from "../src/state/cache";
+import { FakeNotebookLM } from "./fake-server";
+
+const recording = Boolean(process.env["NOTEBOOKLM_RECORD_FIXTURES"]);
+const fixturesDir = join(import.meta.dir, "fixtures");
+const dir = mkdtempSync(join(tmpdir(), "nlm-replay-"));
+const originalTokensPath = getCachePath();
+const realFetch = globalThis.fetch;
+const server = recording ? new FakeNotebookLM({ pollsUntilReady: 0 }) : null;
+
+let tools: Awaited<ReturnType<typeof plugin>>["tool"];
+let networkCalls = 0;
+
+async function run(name: keyof typeof tools, args: Record<string, unknown> = {}): Promise<any> {
+  const result = await (tools[name].execute as (args: unknown, ctx: unknown) => Promise<string>)(args, {});
+  return JSON.parse(result);
+}
+
+describe("plugin tools replayed from fixtures", () => {
+  beforeAll(async () => {
+    setTokensPath(join(dir, "auth.json"));
+    setTasksPath(join(dir, "tasks.json"));
+    setConversationsDir(join(dir, "conversations"));
+    session.reset();
+    cache.clear();
+    AuthManager.clearInstance();
+    resetClient();
+
+    if (server) {
+      rmSync(fixturesDir, { recursive: true, force: true });
+      setBaseUrl(server.start());
+      setRateLimiter(new RateLimiter({ global: { capacity: Infinity, refillMs: 1 }, budgets: {} }));
+      setTransportMode("record", fixturesDir);
+      saveTokensToCache({
+        cookies: server.cookies(),
+        csrfToken: server.csrfToken,
+        sessionId: server.sessionId,
+        extractedAt: Date.now() / 1000,
+      }, true);
+    } else {
+      setTransportMode("replay", fixturesDir);
+      globalThis.fetch = (async () => {
+        networkCalls++;
+        throw new Error("network disabled");
+      }) as unknown as typeof fetch;
+    }
+    tools = (await plugin({ client: null, directory: dir })).tool;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+    server?.stop();
+    setBaseUrl();
+    setTransportMode();
+    setTokensPath(originalTokensPath);
+    setRateLimiter(null);
+    AuthManager.clearInstance();
+    resetClient();
+    cache.clear();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // One scenario: replayed calls must come in the order they were recorded
+  test("notebook, sources, query, research, studio and mind map tools", async () => {
+    const created = await run("notebook_create", { title: "Replay" });
+    expect(created.error).toBeUndefined();
+    const notebookId = created.created.id;
+    expect((await run("notebook_list")).notebooks.map((n: { id: string }) => n.id)).toContain(notebookId);
+
+    const text = await run("source_add", { notebook_id: notebookId, text: "Plants turn light into sugar.", title: "Photosynthesis" });
+    expect(text.added.title).toBe("Photosynthesis");
+    expect((await run("source_add", { notebook_id: notebookId, urls: "https://example.com/leaves" })).added.id).toBeDefined();
+    expect((await run("source_list", { notebook_id: notebookId, include_guides: true })).count).toBe(2);
+    expect((await run("source_get", { source_id: text.added.id })).content).toBe("Plants turn light into sugar.");
+
+    const first = await run("notebook_query", { notebook_id: notebookId, query: "How do plants eat?" });
+    expect(first.answer).toContain("How do plants eat?");
+    const followUp = await run("notebook_query", { notebook_id: notebookId, query: "And at night?", conversation_id: first.conversation_id });
+    expect(followUp.conversation_id).toBe(first.conversation_id);
+
+    const started = await run("research_start", { notebook_id: notebookId, query: "Leaf anatomy" });
+    const taskId = started.started.taskId;
+    expect((await run("research_status", { notebook_id: notebookId, task_id: taskId })).count).toBeGreaterThan(0);
+    expect((await run("research_import", { notebook_id: notebookId, task_id: taskId, indices: "0" })).imported).toBe(1);
+
+    const studio = await run("studio_create", { notebook_id: notebookId, type: "report" });
+    const artifactId = studio.started.artifactId;
+    expect((await run("studio_list", { notebook_id: notebookId })).artifacts.map((a: { id: string }) => a.id)).toContain(artifactId);
+    const downloaded = await run("studio_download", { notebook_id: notebookId, artifact_ids: artifactId });
+    expect(readFileSync(downloaded.downloaded[0].path, "utf-8")).toContain("generated report");
+
+    const mindMap = await run("mindmap_create", { notebook_id: notebookId, title: "Overview", format: "outline" });
+    expect(mindMap.content).toContain("Photosynthesis");
+    await run("mindmap_delete", { notebook_id: notebookId, mind_map_ids: mindMap.mind_map_id });
+    expect((await run("mindmap_list", { notebook_id: notebookId })).count).toBe(0);
+
+    expect((await run("notebook_delete", { notebook_id: notebookId, confirm_title: "Replay" })).deleted.id).toBe(notebookId);
+
+    if (!recording) expect(networkCalls).toBe(0);
+    expect(existsSync(fixturesDir)).toBe(true);
+  });
+});
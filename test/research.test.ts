@@ -0,0 +1,98 @@
+/**
+ * Research Import Policy Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { planResearchImport, narrowImportPolicy, normalizeUrl, formatResearchReportMarkdown, researchReportTitle } from "../src/client/services/research";
+import type { DiscoveredSource, ResearchImportPolicy, ResearchTask } from "../src/types";
+
+const sources: DiscoveredSource[] = [
+  { index: 0, title: "Docs", url: "https://react.dev/learn", type: "web" },
+  { index: 1, title: "Forum", url: "https://www.reddit.com/r/react", type: "web" },
+  { index: 2, title: "Blog", url: "https://blog.example.com/post", type: "web" },
+  { index: 3, title: "Spec", type: "google_doc" },
+  { index: 4, title: "Report", type: "deep_report" },
+];
+
+function policy(overrides: Partial<ResearchImportPolicy> = {}): ResearchImportPolicy {
+  return { allowDomains: [], blockDomains: [], types: [], skipExisting: true, ...overrides };
+}
+
+const indices = (plan: { accepted: DiscoveredSource[] }) => plan.accepted.map((s) => s.index);
+
+describe("planResearchImport", () => {
+  test("accepts everything with an empty policy", () => {
+    expect(indices(planResearchImport(sources, policy()))).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test("blocks domains including subdomains", () => {
+    const plan = planResearchImport(sources, policy({ blockDomains: ["reddit.com", "example.com"] }));
+    expect(indices(plan)).toEqual([0, 3, 4]);
+    expect(plan.skipped.map((s) => s.reason)).toEqual(["domain reddit.com is blocked", "domain blog.example.com is blocked"]);
+  });
+
+  test("allowlist only constrains sources with URLs", () => {
+    expect(indices(planResearchImport(sources, policy({ allowDomains: ["react.dev"] })))).toEqual([0, 3, 4]);
+  });
+
+  test("filters by type and caps the count", () => {
+    expect(indices(planResearchImport(sources, policy({ types: ["web", "deep_report"], maxCount: 2 })))).toEqual([0, 1]);
+  });
+
+  test("skips URLs already in the notebook and duplicates in the batch", () => {
+    const dupes = [...sources, { index: 5, title: "Docs again", url: "https://react.dev/learn/#intro", type: "web" }];
+    const plan = planResearchImport(dupes, policy(), ["https://REACT.dev/learn/"]);
+    expect(indices(plan)).toEqual([1, 2, 3, 4]);
+    expect(plan.skipped.map((s) => s.index)).toEqual([0, 5]);
+
+    expect(indices(planResearchImport(dupes, policy({ skipExisting: false }), ["https://react.dev/learn"]))).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test("normalizeUrl ignores www, fragments and trailing slashes", () => {
+    expect(normalizeUrl("https://www.Example.com/a/#x")).toBe("https://example.com/a");
+  });
+});
+
+describe("narrowImportPolicy", () => {
+  test("intersects requested types with the configured ones", () => {
+    const configured = policy({ types: ["web", "google_doc"] });
+    expect(narrowImportPolicy(configured, { types: ["web", "deep_report"] }).types).toEqual(["web"]);
+    expect(narrowImportPolicy(policy(), { types: ["deep_report"] }).types).toEqual(["deep_report"]);
+    expect(() => narrowImportPolicy(configured, { types: ["deep_report"] })).toThrow(/None of the requested types/);
+  });
+
+  test("adds blocked domains and lowers the count", () => {
+    const narrowed = narrowImportPolicy(policy({ blockDomains: ["reddit.com"], maxCount: 3 }), { blockDomains: ["example.com"], maxCount: 5 });
+    expect(narrowed.blockDomains).toEqual(["reddit.com", "example.com"]);
+    expect(narrowed.maxCount).toBe(3);
+  });
+
+  test("includeExisting turns off skipping existing URLs", () => {
+    expect(narrowImportPolicy(policy(), {}).skipExisting).toBe(true);
+    expect(narrowImportPolicy(policy(), { includeExisting: true }).skipExisting).toBe(false);
+  });
+});
+
+describe("formatResearchReportMarkdown", () => {
+  const task: ResearchTask = {
+    taskId: "task-1",
+    notebookId: "nb-1",
+    status: "completed",
+    sources,
+    report: "## Server Components\n\nThey render on the server.",
+  };
+
+  test("adds a title and numbered references with links", () => {
+    const markdown = formatResearchReportMarkdown(task);
+    expect(researchReportTitle(task)).toBe("Server Components");
+    expect(markdown.startsWith("# Server Components\n\n## Server Components")).toBe(true);
+    expect(markdown).toContain("## References\n\n1. [Docs](https://react.dev/learn) (web)");
+    expect(markdown).toContain("4. Spec (google_doc)");
+    expect(markdown).not.toContain("5. Report");
+    expect(markdown).toContain("research task `task-1` in notebook [nb-1]");
+  });
+
+  test("keeps a report's own top-level heading", () => {
+    const markdown = formatResearchReportMarkdown({ ...task, sources: [], report: "# RSC\n\nBody" });
+    expect(markdown.startsWith("# RSC\n\nBody\n\n---")).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Background Scheduler Tests
+ */
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pollTasks, resetScheduler, type SchedulerClient } from "../src/hooks/scheduler";
+import * as session from "../src/state/session";
+import { setTasksPath, listTasks, finishTask } from "../src/state/tasks";
+import { Config } from "../src/config";
+import type { StudioArtifact } from "../src/types";
+
+const dir = mkdtempSync(join(tmpdir(), "nlm-scheduler-"));
+
+async function addStudioTask(id: string, notebookId: string) {
+  await session.addPendingTask({ id, type: "studio", kind: "audio", notebookId, status: "pending", startedAt: Date.now() });
+}
+
+function artifact(id: string, status: StudioArtifact["status"]): StudioArtifact {
+  return { id, title: `Artifact ${id}`, type: "audio", status, createdAt: "" };
+}
+
+function fakeClient(artifacts: Record<string, StudioArtifact[] | Error>) {
+  const polls: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const client = {
+    pollStudioStatus: async (notebookId: string) => {
+      polls.push(notebookId);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await Bun.sleep(5);
+      inFlight--;
+      const result = artifacts[notebookId] ?? [];
+      if (result instanceof Error) throw result;
+      return result;
+    },
+  } as unknown as SchedulerClient;
+  return { client, polls, maxInFlight: () => maxInFlight };
+}
+
+describe("Scheduler", () => {
+  const messages: string[] = [];
+  const notify = (message: string) => { messages.push(message); };
+
+  beforeEach(() => {
+    setTasksPath(join(mkdtempSync(join(dir, "case-")), "tasks.json"));
+    session.reset();
+    resetScheduler();
+    messages.length = 0;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("polls studio status once per notebook and notifies finished tasks", async () => {
+    await addStudioTask("a1", "nb-1");
+    await addStudioTask("a2", "nb-1");
+    await addStudioTask("b1", "nb-2");
+    const { client, polls } = fakeClient({
+      "nb-1": [artifact("a1", "ready"), artifact("a2", "generating")],
+      "nb-2": [artifact("b1", "failed")],
+    });
+
+    expect(await pollTasks(client, notify)).toBe(3);
+    expect(polls.sort()).toEqual(["nb-1", "nb-2"]);
+    expect(session.getPendingTasks().map(t => t.id)).toEqual(["a2"]);
+    expect(messages).toEqual(["Artifact a1 is ready. Save it with studio_download", "Artifact b1 generation failed"]);
+    expect(listTasks().find(t => t.id === "b1")?.outcome).toBe("failed");
+  });
+
+  test("backs off per task between polls", async () => {
+    await addStudioTask("a1", "nb-1");
+    const { client, polls } = fakeClient({ "nb-1": [artifact("a1", "generating")] });
+    const now = Date.now();
+
+    await pollTasks(client, notify, now);
+    expect(await pollTasks(client, notify, now + 1000)).toBe(0);
+    expect(await pollTasks(client, notify, now + Config.TASK_POLL_INITIAL)).toBe(1);
+    expect(await pollTasks(client, notify, now + Config.TASK_POLL_INITIAL * 2)).toBe(0);
+    expect(polls).toHaveLength(2);
+  });
+
+  test("limits concurrent polls", async () => {
+    for (let i = 0; i < 5; i++) await addStudioTask(`t${i}`, `nb-${i}`);
+    const { client, polls, maxInFlight } = fakeClient({});
+
+    await pollTasks(client, notify);
+    expect(polls).toHaveLength(5);
+    expect(maxInFlight()).toBe(Config.SCHEDULER_CONCURRENCY);
+  });
+
+  test("gives up after repeated polling errors", async () => {
+    await addStudioTask("a1", "nb-1");
+    const { client } = fakeClient({ "nb-1": new Error("HTTP 500") });
+
+    let now = Date.now();
+    for (let i = 0; i < 3; i++) {
+      await pollTasks(client, notify, now);
+      now += Config.TASK_POLL_MAX;
+    }
+
+    expect(session.getPendingTasks()).toEqual([]);
+    expect(listTasks()[0]).toMatchObject({ id: "a1", outcome: "failed", error: "HTTP 500" });
+  });
+
+  test("drops tasks another session finished instead of polling them", async () => {
+    await addStudioTask("a1", "nb-1");
+    await addStudioTask("b1", "nb-2");
+    // Another session sharing tasks.json saw a1 through
+    await finishTask("a1", "completed");
+    const { client, polls } = fakeClient({ "nb-2": [artifact("b1", "generating")] });
+
+    expect(await pollTasks(client, notify)).toBe(1);
+    expect(polls).toEqual(["nb-2"]);
+    expect(session.getPendingTasks().map(t => t.id)).toEqual(["b1"]);
+    expect(messages).toEqual([]);
+  });
+});
@@ -1,14 +1,25 @@
 /**
  * Session State Tests
  */
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import * as session from "../src/state/session";
+import { setTasksPath } from "../src/state/tasks";
+
+const dir = mkdtempSync(join(tmpdir(), "nlm-session-"));
 
 describe("Session State", () => {
   beforeEach(() => {
+    setTasksPath(join(mkdtempSync(join(dir, "case-")), "tasks.json"));
     session.reset();
   });
 
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
   test("setActiveNotebook updates state", () => {
     session.setActiveNotebook("nb-1", "My Notebook");
     
@@ -26,15 +37,15 @@ describe("Session State", () => {
     expect(conv.lastAnswer).toBe("X is a thing");
   });
 
-  test("addPendingTask and removePendingTask", () => {
-    session.addPendingTask({
+  test("addPendingTask and removePendingTask", async () => {
+    await session.addPendingTask({
       id: "task-1",
       type: "research",
       notebookId: "nb-1",
       status: "pending",
       startedAt: Date.now(),
     });
-    session.addPendingTask({
+    await session.addPendingTask({
       id: "task-2",
       type: "studio",
       notebookId: "nb-1",
@@ -44,15 +55,15 @@ describe("Session State", () => {
     
     expect(session.getPendingTasks()).toHaveLength(2);
     
-    session.removePendingTask("task-1");
+    await session.removePendingTask("task-1");
     expect(session.getPendingTasks()).toHaveLength(1);
     expect(session.getPendingTasks()[0].id).toBe("task-2");
   });
 
-  test("getContextSummary includes all state", () => {
+  test("getContextSummary includes all state", async () => {
     session.setActiveNotebook("nb-1", "Test Notebook");
     session.setConversation("conv-1", "Query?", "Answer");
-    session.addPendingTask({
+    await session.addPendingTask({
       id: "task-1",
       type: "research",
       notebookId: "nb-1",
@@ -74,4 +85,25 @@ describe("Session State", () => {
     const active = session.getActiveNotebook();
     expect(active.id).toBeNull();
   });
+
+  test("pending tasks survive reset and are resumed", async () => {
+    await session.addPendingTask({ id: "task-1", type: "studio", kind: "audio", notebookId: "nb-1", status: "pending", startedAt: Date.now() });
+    await session.updatePendingTask("task-1", { status: "processing" });
+    session.reset();
+    expect(session.getPendingTasks()).toHaveLength(0);
+
+    expect(session.resumePendingTasks()).toBe(1);
+    expect(session.getPendingTasks()[0]).toMatchObject({ id: "task-1", kind: "audio", status: "processing" });
+    expect(session.resumePendingTasks()).toBe(0);
+  });
+
+  test("cleanupStaleTasks uses per-kind lifetimes", async () => {
+    const minutesAgo = (m: number) => Date.now() - m * 60 * 1000;
+    await session.addPendingTask({ id: "audio", type: "studio", kind: "audio", notebookId: "nb-1", status: "pending", startedAt: minutesAgo(30) });
+    await session.addPendingTask({ id: "report", type: "studio", kind: "report", notebookId: "nb-1", status: "pending", startedAt: minutesAgo(30) });
+    await session.addPendingTask({ id: "fast", type: "research", kind: "research_fast", notebookId: "nb-1", status: "pending", startedAt: minutesAgo(30) });
+
+    expect(await session.cleanupStaleTasks()).toBe(2);
+    expect(session.getPendingTasks().map(t => t.id)).toEqual(["audio"]);
+  });
 });
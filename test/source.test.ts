@@ -0,0 +1,78 @@
+/**
+ * Source Service Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { SourceService } from "../src/client/services/source";
+import type { Reconcile, RpcTransport } from "../src/client/transport";
+import { RPC_IDS } from "../src/config";
+
+/**
+ * Transport whose ADD_SOURCE times out after the server applied it: the
+ * notebook lists `before` until the add, then `after`; returns the reconciled result
+ */
+function addTimesOut(before: unknown[][], after: unknown[][]) {
+  let added = false;
+  const transport = {
+    call: async (rpcId: string, _params: unknown, options?: { reconcile?: Reconcile }) => {
+      if (rpcId === RPC_IDS.GET_NOTEBOOK) return [["Notebook", added ? after : before]];
+      added = true;
+      return (await options?.reconcile?.()) ?? null;
+    },
+  } as unknown as RpcTransport;
+  return new SourceService(transport);
+}
+
+const source = (id: string, title: string, url?: string) =>
+  [[id], title, url ? [null, null, null, null, 5, null, null, [url]] : []];
+
+describe("SourceService add reconciliation", () => {
+  test("finds the new text source, not an older one with the same title", async () => {
+    const sources = addTimesOut(
+      [source("old", "Pasted Text")],
+      [source("old", "Pasted Text"), source("new", "Pasted Text")]
+    );
+    expect(await sources.addText("nb-1", "fresh notes")).toEqual({ id: "new", title: "Pasted Text" });
+  });
+
+  test("finds nothing when only an older source matches", async () => {
+    const sources = addTimesOut([source("old", "Pasted Text")], [source("old", "Pasted Text")]);
+    expect(await sources.addText("nb-1", "fresh notes")).toBeNull();
+  });
+
+  test("ignores a URL that was already in the notebook", async () => {
+    const sources = addTimesOut(
+      [source("old", "Example", "https://example.com/a")],
+      [source("old", "Example", "https://example.com/a")]
+    );
+    expect(await sources.addUrl("nb-1", "https://example.com/a")).toBeNull();
+  });
+
+  test("uses known source ids instead of re-listing first", async () => {
+    const listed: string[] = [];
+    const transport = {
+      call: async (rpcId: string, _params: unknown, options?: { reconcile?: Reconcile }) => {
+        listed.push(rpcId);
+        if (rpcId === RPC_IDS.GET_NOTEBOOK) return [["Notebook", [source("old", "Pasted Text"), source("new", "Pasted Text")]]];
+        return (await options?.reconcile?.()) ?? null;
+      },
+    } as unknown as RpcTransport;
+
+    const added = await new SourceService(transport).addText("nb-1", "fresh notes", "Pasted Text", new Set(["old"]));
+    expect(added).toEqual({ id: "new", title: "Pasted Text" });
+    expect(listed).toEqual([RPC_IDS.ADD_SOURCE, RPC_IDS.GET_NOTEBOOK]);
+  });
+
+  test("sends the add without a reconciler when the listing fails", async () => {
+    const reconcilers: unknown[] = [];
+    const transport = {
+      call: async (rpcId: string, _params: unknown, options?: { reconcile?: Reconcile }) => {
+        if (rpcId === RPC_IDS.GET_NOTEBOOK) throw new Error("HTTP 503");
+        reconcilers.push(options?.reconcile);
+        return [[["src-1"], "Notes"]];
+      },
+    } as unknown as RpcTransport;
+
+    expect(await new SourceService(transport).addText("nb-1", "notes", "Notes")).toEqual({ id: "src-1", title: "Notes" });
+    expect(reconcilers).toEqual([undefined]);
+  });
+});
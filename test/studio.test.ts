@@ -0,0 +1,98 @@
+/**
+ * Studio Service Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { StudioService } from "../src/client/services/studio";
+import type { RpcTransport } from "../src/client/transport";
+import { RPC_IDS } from "../src/config";
+
+function capture() {
+  const calls: { rpcId: string; params: any }[] = [];
+  const transport = {
+    call: async (rpcId: string, params: unknown) => {
+      calls.push({ rpcId, params });
+      return [["artifact-1"]];
+    },
+  } as unknown as RpcTransport;
+  return { calls, studio: new StudioService(transport) };
+}
+
+describe("StudioService.create", () => {
+  test("encodes audio format and length", async () => {
+    const { calls, studio } = capture();
+    const id = await studio.create("nb-1", "audio", { format: "debate", length: "short", focusPrompt: "risks" }, ["s1", "s2"]);
+
+    expect(id).toBe("artifact-1");
+    expect(calls[0]!.rpcId).toBe(RPC_IDS.CREATE_STUDIO);
+    const [, notebookId, content] = calls[0]!.params;
+    expect(notebookId).toBe("nb-1");
+    expect(content.slice(0, 4)).toEqual([null, null, 1, [[["s1"]], [["s2"]]]]);
+    expect(content[6]).toEqual([null, ["risks", 1, null, [["s1"], ["s2"]], "en", null, 4]]);
+  });
+
+  test("places infographic options in their own slot", async () => {
+    const { calls, studio } = capture();
+    await studio.create("nb-1", "infographic", { orientation: "portrait" }, ["s1"]);
+
+    const content = calls[0]!.params[2];
+    expect(content).toHaveLength(15);
+    expect(content[2]).toBe(7);
+    expect(content[14]).toEqual([[null, "en", null, 2, 2]]);
+  });
+
+  test("encodes report format as title and description", async () => {
+    const { calls, studio } = capture();
+    await studio.create("nb-1", "report", { format: "Study Guide" }, ["s1"]);
+
+    const options = calls[0]!.params[2][7][1];
+    expect(options[0]).toBe("Study Guide");
+    expect(options[1]).toContain("glossary");
+  });
+
+  test("rejects creation without sources", async () => {
+    const { studio } = capture();
+    await expect(studio.create("nb-1", "flashcards", {}, [])).rejects.toThrow(/No sources/);
+  });
+});
+
+describe("StudioService.download", () => {
+  function withArtifacts(artifacts: unknown[], media = { data: new Uint8Array([1, 2, 3]), contentType: "audio/mpeg" }) {
+    const downloads: string[] = [];
+    const transport = {
+      call: async () => [artifacts],
+      download: async (url: string) => {
+        downloads.push(url);
+        return media;
+      },
+    } as unknown as RpcTransport;
+    return { downloads, studio: new StudioService(transport) };
+  }
+
+  test("fetches media with the extension from its content type", async () => {
+    const audio: unknown[] = ["art-1", "Deep Dive", 1, [], 3];
+    audio[6] = [null, "https://lh3.googleusercontent.com/audio"];
+    const { downloads, studio } = withArtifacts([audio]);
+
+    const result = await studio.download("nb-1", "art-1");
+    expect(downloads).toEqual(["https://lh3.googleusercontent.com/audio"]);
+    expect(result.extension).toBe("mp3");
+    expect(result.data).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  test("renders data tables as CSV without a request", async () => {
+    const table: unknown[] = ["art-2", "Pricing", 9, [], 3];
+    table[18] = [null, [[["Plan", "Notes"], ["Pro", 'Has "extras", more']]]];
+    const { downloads, studio } = withArtifacts([table]);
+
+    const result = await studio.download("nb-1", "art-2");
+    expect(downloads).toEqual([]);
+    expect(result.extension).toBe("csv");
+    expect(result.data).toBe('Plan,Notes\r\nPro,"Has ""extras"", more"\r\n');
+  });
+
+  test("rejects artifacts that are not ready", async () => {
+    const { studio } = withArtifacts([["art-3", "Deck", 8, [], 1]]);
+    await expect(studio.download("nb-1", "art-3")).rejects.toThrow("not ready");
+    await expect(studio.download("nb-1", "missing")).rejects.toThrow("not found");
+  });
+});
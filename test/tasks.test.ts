@@ -0,0 +1,73 @@
+/**
+ * Task Persistence Tests
+ */
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTasksPath, saveTask, finishTask, listTasks, loadActiveTasks, MAX_TASK_HISTORY } from "../src/state/tasks";
+import type { PendingTask } from "../src/state/session";
+
+const dir = mkdtempSync(join(tmpdir(), "nlm-tasks-"));
+
+function task(id: string, startedAt = Date.now()): PendingTask {
+  return { id, type: "studio", kind: "audio", notebookId: "nb-1", status: "pending", startedAt };
+}
+
+describe("Task persistence", () => {
+  let path: string;
+
+  beforeEach(() => {
+    path = join(mkdtempSync(join(dir, "case-")), "nested", "tasks.json");
+    setTasksPath(path);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("saveTask upserts active tasks", async () => {
+    await saveTask(task("a", 1));
+    await saveTask({ ...task("a", 1), status: "processing" });
+    await saveTask(task("b", 2));
+
+    expect(loadActiveTasks().map(t => [t.id, t.status])).toEqual([["a", "processing"], ["b", "pending"]]);
+    expect(listTasks().map(t => t.id)).toEqual(["b", "a"]);
+  });
+
+  test("finishTask moves a task to history once", async () => {
+    await saveTask(task("a"));
+    await finishTask("a", "failed", "boom");
+    await finishTask("a", "completed");
+
+    expect(loadActiveTasks()).toEqual([]);
+    expect(listTasks()[0]).toMatchObject({ id: "a", outcome: "failed", error: "boom" });
+    expect(listTasks()[0]!.finishedAt).toBeNumber();
+  });
+
+  test("history is capped, active tasks are kept", async () => {
+    await saveTask(task("active"));
+    for (let i = 0; i < MAX_TASK_HISTORY + 5; i++) {
+      await saveTask(task(`done-${i}`, i));
+      await finishTask(`done-${i}`, "completed");
+    }
+
+    const tasks = listTasks();
+    expect(tasks).toHaveLength(MAX_TASK_HISTORY + 1);
+    expect(tasks.some(t => t.id === "active")).toBe(true);
+  });
+
+  test("concurrent sessions keep each other's tasks", async () => {
+    const module = join(import.meta.dir, "../src/state/tasks.ts");
+    const session = (prefix: string) => Bun.spawn([
+      process.execPath, "-e",
+      `const t = await import(${JSON.stringify(module)});
+       t.setTasksPath(${JSON.stringify(path)});
+       for (let i = 0; i < 20; i++) await t.saveTask({ id: ${JSON.stringify(prefix)} + i, type: "studio", kind: "audio", notebookId: "nb-1", status: "pending", startedAt: i });`,
+    ]);
+    const exits = await Promise.all([session("a-"), session("b-")].map((p) => p.exited));
+
+    expect(exits).toEqual([0, 0]);
+    expect(loadActiveTasks()).toHaveLength(40);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * RPC Transport Tests (fetch is stubbed)
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { RpcTransport } from "../src/client/transport";
+import { RateLimiter } from "../src/client/rate-limiter";
+import { QueryStreamDecoder } from "../src/client/codec";
+import { Config, RPC_IDS } from "../src/config";
+
+const realFetch = globalThis.fetch;
+
+interface Sent {
+  url: URL;
+  envelopes: unknown[][];
+}
+
+/** Stub fetch; respond() maps the sent envelopes to wrb.fr entries */
+function stubFetch(respond: (envelopes: unknown[][]) => unknown[][]): Sent[] {
+  const sent: Sent[] = [];
+  globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+    const form = new URLSearchParams(String(init?.body));
+    const envelopes = JSON.parse(form.get("f.req")!)[0] as unknown[][];
+    sent.push({ url: new URL(String(input)), envelopes });
+    const line = JSON.stringify(respond(envelopes));
+    return new Response(`)]}'\n\n${line.length}\n${line}\n`);
+  }) as typeof fetch;
+  return sent;
+}
+
+/** Echo each envelope's params back as its result, tagged like the request */
+const echo = (envelopes: unknown[][]) =>
+  envelopes.map(([rpcId, params, , tag]) => ["wrb.fr", rpcId, params, null, null, null, tag]);
+
+function transport() {
+  return new RpcTransport({ cookies: { SID: "x" }, csrfToken: "csrf", sessionId: "sid" });
+}
+
+/** Limiter on a fake clock, so backoff pauses and budgets cost no real time */
+function fakeRateLimiter(): RateLimiter {
+  let clock = 0;
+  return new RateLimiter({ now: () => clock, sleep: async (ms) => { clock += ms; } });
+}
+
+describe("RpcTransport batching", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("single call keeps the generic envelope", async () => {
+    const sent = stubFetch(echo);
+    expect(await transport().call("abc", ["p"])).toEqual(["p"]);
+    expect(sent[0]!.envelopes).toEqual([["abc", '["p"]', null, "generic"]]);
+    expect(sent[0]!.url.searchParams.get("rpcids")).toBe("abc");
+  });
+
+  test("callMany sends tagged envelopes and decodes results by tag", async () => {
+    const sent = stubFetch((envelopes) => echo(envelopes).reverse());
+    const results = await transport().callMany([
+      { rpcId: "guide", params: ["s1"] },
+      { rpcId: "guide", params: ["s2"] },
+      { rpcId: "other", params: ["x"] },
+    ]);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.url.searchParams.get("rpcids")).toBe("guide,other");
+    expect(results).toEqual([
+      { ok: true, value: ["s1"] },
+      { ok: true, value: ["s2"] },
+      { ok: true, value: ["x"] },
+    ]);
+  });
+
+  test("one failing RPC does not fail the rest of the batch", async () => {
+    stubFetch((envelopes) =>
+      envelopes.map(([rpcId, params, , tag]) =>
+        rpcId === "bad" ? ["wrb.fr", rpcId, null, null, null, [3], tag] : ["wrb.fr", rpcId, params, null, null, null, tag]
+      )
+    );
+    const results = await transport().callMany([
+      { rpcId: "good", params: [1] },
+      { rpcId: "bad", params: [2] },
+    ]);
+
+    expect(results[0]).toEqual({ ok: true, value: [1] });
+    expect(results[1]!.ok).toBe(false);
+  });
+
+  test("concurrent calls are micro-batched into one request", async () => {
+    const sent = stubFetch(echo);
+    const rpc = transport();
+    const results = await Promise.allSettled([
+      rpc.call("a", [1], { path: "/notebook/nb-1" }),
+      rpc.call("b", [2], { path: "/notebook/nb-1" }),
+      rpc.call("c", [3], { path: "/notebook/nb-1" }),
+    ]);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.envelopes.map((e) => e[3])).toEqual(["1", "2", "3"]);
+    expect(results.map((r) => (r.status === "fulfilled" ? r.value : r.reason))).toEqual([[1], [2], [3]]);
+  });
+
+  test("uses the discovered backend label, falling back to Config.BL", async () => {
+    const sent = stubFetch(echo);
+    const rpc = new RpcTransport({ cookies: { SID: "x" }, csrfToken: "csrf", sessionId: "sid" });
+    await rpc.call("abc", [1]);
+    rpc.updateFullAuth({ SID: "x" }, "csrf", "sid", "boq_labs-tailwind-frontend_20990101.00_p0");
+    await rpc.call("abc", [2]);
+    rpc.updateFullAuth({ SID: "x" }, "csrf", "sid");
+    await rpc.call("abc", [3]);
+    expect(sent.map((s) => s.url.searchParams.get("bl"))).toEqual([
+      Config.BL,
+      "boq_labs-tailwind-frontend_20990101.00_p0",
+      "boq_labs-tailwind-frontend_20990101.00_p0",
+    ]);
+  });
+
+  test("batch: false and different paths are sent separately", async () => {
+    const sent = stubFetch(echo);
+    const rpc = transport();
+    await Promise.all([
+      rpc.call("a", [1], { path: "/notebook/nb-1" }),
+      rpc.call("b", [2], { path: "/notebook/nb-2" }),
+      rpc.call("c", [3], { path: "/notebook/nb-1", batch: false }),
+    ]);
+
+    expect(sent).toHaveLength(3);
+    expect(sent.every((s) => s.envelopes.length === 1 && s.envelopes[0]![3] === "generic")).toBe(true);
+  });
+});
+
+describe("RpcTransport unsafe retries", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  /** Fail the first request with a 503, echo afterwards */
+  function stubFlaky(): string[] {
+    const sent: string[] = [];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      sent.push(new URL(String(input)).searchParams.get("rpcids")!);
+      if (sent.length === 1) return new Response("", { status: 503 });
+      const form = new URLSearchParams(String(init?.body));
+      const line = JSON.stringify(echo(JSON.parse(form.get("f.req")!)[0]));
+      return new Response(`)]}'\n\n${line.length}\n${line}\n`);
+    }) as typeof fetch;
+    return sent;
+  }
+
+  function fastTransport() {
+    return new RpcTransport({ cookies: { SID: "x" }, csrfToken: "csrf", sessionId: "sid", rateLimiter: fakeRateLimiter() });
+  }
+
+  test("safe RPCs are resent after a server error", async () => {
+    const sent = stubFlaky();
+    expect(await fastTransport().call("list", [1])).toEqual([1]);
+    expect(sent).toEqual(["list", "list"]);
+  });
+
+  test("unsafe RPCs without a reconciler are not resent", async () => {
+    const sent = stubFlaky();
+    const error = await fastTransport().call(RPC_IDS.ADD_SOURCE, [1]).catch((e) => e);
+    expect(error.code).toBe("SERVER_ERROR");
+    expect(error.retryable).toBe(false);
+    expect(sent).toHaveLength(1);
+  });
+
+  test("a reconciled result is returned instead of resending", async () => {
+    const sent = stubFlaky();
+    const result = await fastTransport().call(RPC_IDS.ADD_SOURCE, [1], {
+      reconcile: async () => [[["src-1"], "Found"]],
+    });
+    expect(result).toEqual([[["src-1"], "Found"]]);
+    expect(sent).toHaveLength(1);
+  });
+
+  test("unsafe RPCs are resent when the reconciler finds nothing", async () => {
+    const sent = stubFlaky();
+    let checked = 0;
+    const result = await fastTransport().call(RPC_IDS.CREATE_NOTEBOOK, [1], {
+      reconcile: async () => {
+        checked++;
+        return null;
+      },
+    });
+    expect(result).toEqual([1]);
+    expect(checked).toBe(1);
+    expect(sent).toEqual([RPC_IDS.CREATE_NOTEBOOK, RPC_IDS.CREATE_NOTEBOOK]);
+  });
+
+  test("unsafe RPCs are never micro-batched", async () => {
+    const sent = stubFetch(echo);
+    const rpc = transport();
+    await Promise.all([
+      rpc.call("list", [1]),
+      rpc.call(RPC_IDS.ADD_SOURCE, [2]),
+    ]);
+    expect(sent).toHaveLength(2);
+  });
+});
+
+describe("RpcTransport streamQuery", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const authExpired = JSON.stringify([["wrb.fr", null, null, null, null, [16], "generic"]]);
+  const answer = JSON.stringify([["wrb.fr", null, JSON.stringify([["The answer is forty-two, per the sources."]])]]);
+
+  test("RPC error 16 in the stream refreshes auth and retries", async () => {
+    const bodies = [authExpired, answer];
+    const csrfSent: string[] = [];
+    globalThis.fetch = (async (_input: string | URL, init?: RequestInit) => {
+      csrfSent.push(new URLSearchParams(String(init?.body)).get("at")!);
+      const line = bodies.shift()!;
+      return new Response(`)]}'\n${line.length}\n${line}\n`);
+    }) as typeof fetch;
+
+    const rpc: RpcTransport = new RpcTransport({
+      cookies: { SID: "x" },
+      csrfToken: "stale",
+      sessionId: "sid",
+      rateLimiter: fakeRateLimiter(),
+      onAuthRefresh: async () => {
+        rpc.updateAuth("fresh");
+        return true;
+      },
+    });
+
+    let decoder = new QueryStreamDecoder();
+    let retries = 0;
+    await rpc.streamQuery([], {
+      onChunk: (chunk) => decoder.push(chunk),
+      onRetry: () => {
+        retries++;
+        decoder = new QueryStreamDecoder();
+      },
+    });
+
+    expect(csrfSent).toEqual(["stale", "fresh"]);
+    expect(retries).toBe(1);
+    expect(decoder.finish().answer).toBe("The answer is forty-two, per the sources.");
+  });
+
+  test("RPC error 16 without recovery surfaces as AUTH_EXPIRED", async () => {
+    globalThis.fetch = (async () => new Response(`)]}'\n${authExpired.length}\n${authExpired}\n`)) as typeof fetch;
+    const decoder = new QueryStreamDecoder();
+    const rpc = new RpcTransport({ cookies: { SID: "x" }, csrfToken: "csrf", sessionId: "sid", rateLimiter: fakeRateLimiter() });
+    const error = await rpc.streamQuery([], { onChunk: (chunk) => decoder.push(chunk) }).catch((e) => e);
+    expect(error.code).toBe("AUTH_EXPIRED");
+  });
+});
+
+describe("RpcTransport download", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  /** Stub fetch with one response per URL; records what was fetched and whether cookies went along */
+  function stubDownloads(responses: Record<string, () => Response>) {
+    const fetched: { url: string; cookie: string | null }[] = [];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const url = String(input);
+      fetched.push({ url, cookie: new Headers(init?.headers).get("cookie") });
+      return responses[url]?.() ?? new Response("missing", { status: 404 });
+    }) as typeof fetch;
+    return fetched;
+  }
+
+  test("rejects a non-Google URL without sending the cookies", async () => {
+    const fetched = stubDownloads({});
+    const error = await transport().download("https://example.com/audio").catch((e) => e);
+    expect(error.code).toBe("VALIDATION_ERROR");
+    expect(fetched).toEqual([]);
+  });
+
+  test("rejects plain http on a Google host", async () => {
+    const error = await transport().download("http://lh3.googleusercontent.com/audio").catch((e) => e);
+    expect(error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("follows redirects between Google hosts", async () => {
+    const fetched = stubDownloads({
+      "https://lh3.googleusercontent.com/audio": () => new Response(null, { status: 302, headers: { Location: "https://rr1.storage.googleusercontent.com/audio.m4a" } }),
+      "https://rr1.storage.googleusercontent.com/audio.m4a": () => new Response("bytes", { headers: { "Content-Type": "audio/mp4" } }),
+    });
+    const result = await transport().download("https://lh3.googleusercontent.com/audio");
+    expect(new TextDecoder().decode(result.data)).toBe("bytes");
+    expect(fetched.map((f) => f.cookie)).toEqual(["SID=x", "SID=x"]);
+  });
+
+  test("stops at a redirect to a non-Google host", async () => {
+    const fetched = stubDownloads({
+      "https://lh3.googleusercontent.com/audio": () => new Response(null, { status: 302, headers: { Location: "https://evil.example/steal" } }),
+    });
+    const error = await transport().download("https://lh3.googleusercontent.com/audio").catch((e) => e);
+    expect(error.code).toBe("VALIDATION_ERROR");
+    expect(fetched.map((f) => f.url)).toEqual(["https://lh3.googleusercontent.com/audio"]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Wait Utility Tests
+ */
+import { describe, test, expect } from "bun:test";
+import { waitFor, waitTimeout } from "../src/client/wait";
+import { Config } from "../src/config";
+
+describe("waitFor", () => {
+  test("resolves once the task settles and reports progress in between", async () => {
+    let polls = 0;
+    const progress: number[] = [];
+    const result = await waitFor({
+      poll: async () => ++polls,
+      isDone: n => n === 3,
+      timeout: 1000,
+      initialInterval: 1,
+      onProgress: n => progress.push(n),
+    });
+
+    expect(result).toMatchObject({ done: true, value: 3 });
+    expect(progress).toEqual([1, 2]);
+  });
+
+  test("returns the last value when the budget runs out", async () => {
+    const result = await waitFor({
+      poll: async () => "running",
+      isDone: () => false,
+      timeout: 30,
+      initialInterval: 5,
+      factor: 2,
+    });
+
+    expect(result.done).toBe(false);
+    expect(result.value).toBe("running");
+    expect(result.elapsedMs).toBeLessThan(30);
+  });
+
+  test("grows the poll interval up to the maximum", async () => {
+    const stamps: number[] = [];
+    await waitFor({
+      poll: async () => stamps.push(Date.now()),
+      isDone: n => n === 4,
+      timeout: 1000,
+      initialInterval: 10,
+      maxInterval: 20,
+      factor: 4,
+    });
+
+    const gaps = stamps.slice(1).map((t, i) => t - stamps[i]!);
+    expect(gaps[0]).toBeGreaterThanOrEqual(9);
+    expect(gaps[1]).toBeGreaterThanOrEqual(19);
+    expect(gaps[2]).toBeLessThan(80);
+  });
+
+  test("stops waiting when aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const result = await waitFor({
+      poll: async () => null,
+      isDone: () => false,
+      timeout: 10000,
+      initialInterval: 5000,
+      signal: controller.signal,
+    });
+
+    expect(result.done).toBe(false);
+    expect(result.elapsedMs).toBeLessThan(1000);
+  });
+
+  test("keeps polling through a failed poll", async () => {
+    let polls = 0;
+    const result = await waitFor({
+      poll: async () => {
+        if (++polls === 2) throw new Error("HTTP 503");
+        return polls;
+      },
+      isDone: n => n === 3,
+      timeout: 1000,
+      initialInterval: 1,
+    });
+
+    expect(result).toMatchObject({ done: true, value: 3 });
+  });
+
+  test("gives up after repeated poll errors with the last value and error", async () => {
+    let polls = 0;
+    const result = await waitFor({
+      poll: async () => {
+        if (++polls > 1) throw new Error("timeout");
+        return "running";
+      },
+      isDone: () => false,
+      timeout: 1000,
+      initialInterval: 1,
+    });
+
+    expect(result.done).toBe(false);
+    expect(result.value).toBe("running");
+    expect(result.done === false && (result.error as Error).message).toBe("timeout");
+    expect(polls).toBe(4);
+  });
+
+  test("waitTimeout uses per-type budgets unless overridden", () => {
+    expect(waitTimeout("research_deep")).toBe(Config.WAIT_TIMEOUTS.research_deep);
+    expect(waitTimeout("audio", 60)).toBe(60000);
+  });
+});